@@ -0,0 +1,67 @@
+import { createRunManager } from './run-manager.ts';
+import { createApiServer } from './server.ts';
+
+function printHelp(): void {
+  console.log('Usage: npm run api -- [options]');
+  console.log('');
+  console.log('Options:');
+  console.log('  --port <port>                HTTP port. Default: 8700');
+  console.log('  --host <address>             Address to bind. Default: 127.0.0.1');
+  console.log('  --help                       Show this help');
+}
+
+function parseOptions(argv: string[]): { host: string; port: number } {
+  let host = '127.0.0.1';
+  let port = 8700;
+
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index];
+
+    if (arg === '--help') {
+      printHelp();
+      process.exit(0);
+    }
+
+    if (arg === '--port') {
+      const next = argv[index + 1];
+      if (!next) throw new Error('--port requires a port');
+      index += 1;
+      const numeric = Number(next);
+      if (!Number.isFinite(numeric) || numeric < 1 || numeric > 65535) {
+        throw new Error(`Invalid --port: ${next}`);
+      }
+      port = numeric;
+      continue;
+    }
+
+    if (arg === '--host') {
+      const next = argv[index + 1];
+      if (!next) throw new Error('--host requires an address');
+      index += 1;
+      host = next;
+      continue;
+    }
+
+    throw new Error(`Unknown argument: ${arg}`);
+  }
+
+  return { host, port };
+}
+
+async function run(): Promise<void> {
+  const options = parseOptions(process.argv.slice(2));
+  const server = createApiServer(createRunManager());
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+  console.log(`Certification API listening on http://${options.host}:${options.port}`);
+}
+
+run().catch(error => {
+  console.error(error instanceof Error ? error.stack ?? error.message : String(error));
+  process.exitCode = 1;
+});
@@ -0,0 +1,285 @@
+import { randomUUID } from 'node:crypto';
+import {
+  defaultRootDir,
+  runCertification,
+  type CertifyRecord,
+  type CliOptions,
+  type RunArtifacts,
+  type RunEvent,
+  type RunSummary
+} from '@exview/engine';
+
+export type RunStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type RunStreamEventName = 'run-started' | 'record' | 'run-finished';
+
+export interface RunStreamEvent {
+  seq: number;
+  event: RunStreamEventName;
+  data: Record<string, unknown>;
+}
+
+export type RunStreamListener = (event: RunStreamEvent) => void;
+
+export interface RunState {
+  id: string;
+  status: RunStatus;
+  target: string;
+  options: CliOptions;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  progress: { index: number; total: number };
+  summary: RunSummary;
+  records: CertifyRecord[];
+  artifacts: RunArtifacts | null;
+  error: string | null;
+  log: string[];
+  events: RunStreamEvent[];
+  listeners: Set<RunStreamListener>;
+  controller: AbortController;
+}
+
+export interface RunView {
+  id: string;
+  status: RunStatus;
+  target: string;
+  options: CliOptions;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  progress: { index: number; total: number };
+  summary: RunSummary;
+  artifacts: RunArtifacts | null;
+  error: string | null;
+}
+
+export interface RunManager {
+  start(options: CliOptions): RunState;
+  get(id: string): RunState | undefined;
+  list(): RunState[];
+  // Who holds the target, UDP local port or serial port these options need: an active run, or null for a
+  // console command in flight.
+  conflictFor(options: CliOptions): RunConflict | undefined;
+  // Takes the same locks as a run for a one-off exchange; call the returned function when it is done.
+  acquire(options: CliOptions): () => void;
+  cancel(id: string): RunState | undefined;
+  subscribe(id: string, sinceSeq: number, listener: RunStreamListener): (() => void) | undefined;
+}
+
+export interface RunConflict {
+  run: RunState | null;
+  reason: string;
+}
+
+// Finished runs kept for GET /runs/<id>; older ones (with their log and events) are dropped.
+const MAX_FINISHED_RUNS = 50;
+
+// Resources a run holds exclusively, with the text used in the 409 message.
+function lockKeys(options: CliOptions): Array<{ key: string; reason: string }> {
+  const target = `${options.targetHost}:${options.targetPort}`;
+  const keys = [{ key: `target:${target}`, reason: `target ${target}` }];
+  if (options.transport === 'udp') {
+    keys.push({ key: `udp:${options.localPort}`, reason: `local port ${options.localPort}` });
+  }
+  if (options.serialPort) {
+    keys.push({ key: `serial:${options.serialPort}`, reason: `serial port ${options.serialPort}` });
+  }
+  return keys;
+}
+
+function emptySummary(): RunSummary {
+  return { pass: 0, fail: 0, noReply: 0, skipped: 0, lateReplies: 0, unsolicitedFrames: 0 };
+}
+
+function countRecord(summary: RunSummary, record: CertifyRecord): void {
+  if (record.status === 'PASS') summary.pass += 1;
+  if (record.status === 'FAIL') summary.fail += 1;
+  if (record.status === 'NO_REPLY') summary.noReply += 1;
+  if (record.status === 'SKIPPED') summary.skipped += 1;
+  for (const frame of record.staleFrames) {
+    if (frame.kind === 'LATE') summary.lateReplies += 1;
+    else summary.unsolicitedFrames += 1;
+  }
+}
+
+function publish(state: RunState, event: RunStreamEventName, data: Record<string, unknown>): void {
+  const item: RunStreamEvent = { seq: state.events.length + 1, event, data };
+  state.events.push(item);
+  for (const listener of [...state.listeners]) {
+    listener(item);
+  }
+}
+
+export function describeConflict(conflict: RunConflict): string {
+  return conflict.run
+    ? `A run is already active for ${conflict.reason} (run ${conflict.run.id})`
+    : `A console command is in progress for ${conflict.reason}`;
+}
+
+export function isRunFinished(state: RunState): boolean {
+  return state.status !== 'running';
+}
+
+export function toRunView(state: RunState): RunView {
+  return {
+    id: state.id,
+    status: state.status,
+    target: state.target,
+    options: state.options,
+    createdAt: state.createdAt,
+    startedAt: state.startedAt,
+    finishedAt: state.finishedAt,
+    progress: state.progress,
+    summary: state.summary,
+    artifacts: state.artifacts,
+    error: state.error
+  };
+}
+
+export function createRunManager(rootDir: string = defaultRootDir()): RunManager {
+  const runs = new Map<string, RunState>();
+  // Lock key -> run id, or a console holder id that has no run.
+  const activeByKey = new Map<string, string>();
+
+  const conflictFor = (options: CliOptions): RunConflict | undefined => {
+    for (const { key, reason } of lockKeys(options)) {
+      const holder = activeByKey.get(key);
+      if (holder) return { run: runs.get(holder) ?? null, reason };
+    }
+    return undefined;
+  };
+
+  const evictFinished = (): void => {
+    const finished = [...runs.values()].filter(isRunFinished);
+    for (const state of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_RUNS))) {
+      runs.delete(state.id);
+    }
+  };
+
+  const onEvent = (state: RunState, event: RunEvent): void => {
+    if (event.type === 'run-started') {
+      state.startedAt = event.startedAt;
+      state.progress = { index: 0, total: event.total };
+      publish(state, 'run-started', { startedAt: event.startedAt, total: event.total, target: state.target });
+    }
+    if (event.type === 'case-finished' || event.type === 'case-skipped') {
+      state.records.push(event.record);
+      countRecord(state.summary, event.record);
+      state.progress = { index: event.index, total: event.total };
+      publish(state, 'record', { progress: { ...state.progress }, summary: { ...state.summary }, record: event.record });
+    }
+    if (event.type === 'run-finished') {
+      state.artifacts = event.artifacts;
+      state.summary = event.summary;
+    }
+  };
+
+  return {
+    start(options: CliOptions): RunState {
+      const target = `${options.targetHost}:${options.targetPort}`;
+      const conflict = conflictFor(options);
+      if (conflict) throw new Error(describeConflict(conflict));
+      const keys = lockKeys(options).map(item => item.key);
+
+      const state: RunState = {
+        id: randomUUID(),
+        status: 'running',
+        target,
+        options,
+        createdAt: new Date().toISOString(),
+        startedAt: null,
+        finishedAt: null,
+        progress: { index: 0, total: 0 },
+        summary: emptySummary(),
+        records: [],
+        artifacts: null,
+        error: null,
+        log: [],
+        events: [],
+        listeners: new Set<RunStreamListener>(),
+        controller: new AbortController()
+      };
+      runs.set(state.id, state);
+      for (const key of keys) activeByKey.set(key, state.id);
+
+      void runCertification(
+        options,
+        {
+          log: line => state.log.push(line),
+          warn: line => state.log.push(line),
+          prompt: async () => {},
+          onEvent: event => onEvent(state, event),
+          signal: state.controller.signal
+        },
+        rootDir
+      )
+        .then(result => {
+          state.status = result.cancelled ? 'cancelled' : 'completed';
+        })
+        .catch(error => {
+          state.status = 'failed';
+          state.error = error instanceof Error ? error.message : String(error);
+        })
+        .finally(() => {
+          state.finishedAt = new Date().toISOString();
+          for (const key of keys) activeByKey.delete(key);
+          publish(state, 'run-finished', {
+            status: state.status,
+            finishedAt: state.finishedAt,
+            summary: state.summary,
+            artifacts: state.artifacts,
+            error: state.error
+          });
+          state.listeners.clear();
+          evictFinished();
+        });
+
+      return state;
+    },
+
+    get(id: string): RunState | undefined {
+      return runs.get(id);
+    },
+
+    list(): RunState[] {
+      return [...runs.values()];
+    },
+
+    conflictFor,
+
+    acquire(options: CliOptions): () => void {
+      const conflict = conflictFor(options);
+      if (conflict) throw new Error(describeConflict(conflict));
+      const holder = `console:${randomUUID()}`;
+      const keys = lockKeys(options).map(item => item.key);
+      for (const key of keys) activeByKey.set(key, holder);
+      return () => {
+        for (const key of keys) {
+          if (activeByKey.get(key) === holder) activeByKey.delete(key);
+        }
+      };
+    },
+
+    cancel(id: string): RunState | undefined {
+      const state = runs.get(id);
+      if (state?.status === 'running') {
+        state.controller.abort();
+      }
+      return state;
+    },
+
+    subscribe(id: string, sinceSeq: number, listener: RunStreamListener): (() => void) | undefined {
+      const state = runs.get(id);
+      if (!state) return undefined;
+      for (const item of state.events) {
+        if (item.seq > sinceSeq) listener(item);
+      }
+      if (isRunFinished(state)) return () => {};
+      state.listeners.add(listener);
+      return () => {
+        state.listeners.delete(listener);
+      };
+    }
+  };
+}
@@ -0,0 +1,273 @@
+import fs from 'node:fs';
+import http from 'node:http';
+import path from 'node:path';
+import {
+  createOptions,
+  defaultRootDir,
+  listCommandCatalog,
+  listRunHistory,
+  loadRunArtifact,
+  sendConsoleCommand,
+  type CliOptions,
+  type RunArtifacts
+} from '@exview/engine';
+import { describeConflict, isRunFinished, toRunView, type RunConflict, type RunManager, type RunStreamEvent } from './run-manager.ts';
+
+export { createRunManager } from './run-manager.ts';
+
+const MAX_BODY_BYTES = 64 * 1024;
+const SSE_KEEPALIVE_MS = 15000;
+
+const ARTIFACT_BY_KIND: Record<string, { key: keyof RunArtifacts; contentType: string }> = {
+  json: { key: 'jsonPath', contentType: 'application/json; charset=utf-8' },
+  csv: { key: 'csvPath', contentType: 'text/csv; charset=utf-8' },
+  html: { key: 'htmlPath', contentType: 'text/html; charset=utf-8' },
+  'issues-json': { key: 'issuesJsonPath', contentType: 'application/json; charset=utf-8' },
+  'issues-csv': { key: 'issuesCsvPath', contentType: 'text/csv; charset=utf-8' },
+  'latency-csv': { key: 'latencyCsvPath', contentType: 'text/csv; charset=utf-8' },
+  junit: { key: 'junitPath', contentType: 'application/xml; charset=utf-8' },
+  tap: { key: 'tapPath', contentType: 'text/plain; charset=utf-8' }
+};
+
+function sendJson(res: http.ServerResponse, statusCode: number, payload: unknown): void {
+  const body = JSON.stringify(payload, null, 2);
+  res.writeHead(statusCode, { 'Content-Type': 'application/json; charset=utf-8', 'Content-Length': Buffer.byteLength(body) });
+  res.end(body);
+}
+
+function sendError(res: http.ServerResponse, statusCode: number, message: string): void {
+  sendJson(res, statusCode, { error: message });
+}
+
+function sendConflict(res: http.ServerResponse, conflict: RunConflict): void {
+  sendJson(res, 409, { error: describeConflict(conflict), run: conflict.run ? toRunView(conflict.run) : null });
+}
+
+async function readJsonBody(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) throw new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    chunks.push(chunk as Buffer);
+  }
+  const text = Buffer.concat(chunks).toString('utf8').trim();
+  if (!text) return {};
+  const parsed = JSON.parse(text) as unknown;
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Request body must be a JSON object');
+  }
+  return parsed as Record<string, unknown>;
+}
+
+function parseRunRequest(body: Record<string, unknown>): CliOptions {
+  const options = createOptions(body);
+  if (options.promptEach) {
+    throw new Error('promptEach is not supported over HTTP (no operator console)');
+  }
+  return options;
+}
+
+function parseSinceSeq(req: http.IncomingMessage, url: URL): number {
+  const raw = url.searchParams.get('since') ?? req.headers['last-event-id'];
+  const numeric = Number(Array.isArray(raw) ? raw[0] : raw);
+  return Number.isInteger(numeric) && numeric > 0 ? numeric : 0;
+}
+
+function writeSseEvent(res: http.ServerResponse, item: RunStreamEvent): void {
+  res.write(`id: ${item.seq}\nevent: ${item.event}\ndata: ${JSON.stringify(item.data)}\n\n`);
+}
+
+function streamRunEvents(manager: RunManager, runId: string, req: http.IncomingMessage, res: http.ServerResponse, sinceSeq: number): void {
+  // Nothing left to send for a finished run: 204 is the only answer that stops EventSource from reconnecting.
+  const state = manager.get(runId);
+  if (state && isRunFinished(state) && sinceSeq >= state.events.length) {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+  res.write('retry: 2000\n\n');
+
+  let unsubscribe: (() => void) | undefined;
+  let closed = false;
+  const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), SSE_KEEPALIVE_MS);
+  const close = (): void => {
+    if (closed) return;
+    closed = true;
+    clearInterval(keepAlive);
+    unsubscribe?.();
+    res.end();
+  };
+
+  unsubscribe = manager.subscribe(runId, sinceSeq, item => {
+    writeSseEvent(res, item);
+    if (item.event === 'run-finished') close();
+  });
+  if (closed || (state && isRunFinished(state))) {
+    unsubscribe?.();
+    close();
+    return;
+  }
+  req.on('close', close);
+}
+
+export type ApiHandler = (req: http.IncomingMessage, res: http.ServerResponse) => void;
+
+export function createApiHandler(manager: RunManager, rootDir: string = defaultRootDir()): ApiHandler {
+  const handle = async (req: http.IncomingMessage, res: http.ServerResponse): Promise<void> => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const parts = url.pathname.split('/').filter(Boolean);
+    const method = req.method ?? 'GET';
+
+    if (parts[0] === 'history' && method === 'GET') {
+      if (parts.length === 1) {
+        sendJson(res, 200, { runs: listRunHistory(rootDir) });
+        return;
+      }
+      if (parts.length === 2) {
+        try {
+          sendJson(res, 200, loadRunArtifact(rootDir, decodeURIComponent(parts[1])));
+        } catch (error) {
+          sendError(res, 404, error instanceof Error ? error.message : String(error));
+        }
+        return;
+      }
+    }
+
+    if (parts[0] === 'commands' && parts.length === 1 && method === 'GET') {
+      sendJson(res, 200, { commands: listCommandCatalog(rootDir) });
+      return;
+    }
+
+    if (parts[0] === 'console' && parts.length === 1 && method === 'POST') {
+      let options: CliOptions;
+      try {
+        options = createOptions({ ...(await readJsonBody(req)), mode: 'single', promptEach: false });
+      } catch (error) {
+        sendError(res, 400, error instanceof Error ? error.message : String(error));
+        return;
+      }
+      const conflict = manager.conflictFor(options);
+      if (conflict) {
+        sendConflict(res, conflict);
+        return;
+      }
+      const release = manager.acquire(options);
+      try {
+        sendJson(res, 200, await sendConsoleCommand(options, rootDir));
+      } catch (error) {
+        sendError(res, 400, error instanceof Error ? error.message : String(error));
+      } finally {
+        release();
+      }
+      return;
+    }
+
+    if (parts[0] !== 'runs') {
+      sendError(res, 404, `Not found: ${url.pathname}`);
+      return;
+    }
+
+    if (parts.length === 1) {
+      if (method === 'GET') {
+        sendJson(res, 200, { runs: manager.list().map(toRunView) });
+        return;
+      }
+      if (method === 'POST') {
+        let options: CliOptions;
+        try {
+          options = parseRunRequest(await readJsonBody(req));
+        } catch (error) {
+          sendError(res, 400, error instanceof Error ? error.message : String(error));
+          return;
+        }
+        const conflict = manager.conflictFor(options);
+        if (conflict) {
+          sendConflict(res, conflict);
+          return;
+        }
+        sendJson(res, 202, toRunView(manager.start(options)));
+        return;
+      }
+      sendError(res, 405, `Method not allowed: ${method}`);
+      return;
+    }
+
+    const state = manager.get(parts[1]);
+    if (!state) {
+      sendError(res, 404, `Unknown run: ${parts[1]}`);
+      return;
+    }
+
+    if (parts.length === 2 && method === 'GET') {
+      sendJson(res, 200, toRunView(state));
+      return;
+    }
+
+    if (parts.length === 2 && method === 'DELETE') {
+      sendJson(res, 202, toRunView(manager.cancel(state.id) ?? state));
+      return;
+    }
+
+    if (parts.length === 3 && parts[2] === 'cancel' && method === 'POST') {
+      sendJson(res, 202, toRunView(manager.cancel(state.id) ?? state));
+      return;
+    }
+
+    if (parts.length === 3 && parts[2] === 'records' && method === 'GET') {
+      sendJson(res, 200, { id: state.id, status: state.status, summary: state.summary, records: state.records });
+      return;
+    }
+
+    if (parts.length === 3 && parts[2] === 'events' && method === 'GET') {
+      streamRunEvents(manager, state.id, req, res, parseSinceSeq(req, url));
+      return;
+    }
+
+    if (parts.length === 3 && parts[2] === 'log' && method === 'GET') {
+      sendJson(res, 200, { id: state.id, lines: state.log });
+      return;
+    }
+
+    if (parts.length === 4 && parts[2] === 'artifacts' && method === 'GET') {
+      const artifact = ARTIFACT_BY_KIND[parts[3]];
+      if (!artifact) {
+        sendError(res, 404, `Unknown artifact "${parts[3]}". Available: ${Object.keys(ARTIFACT_BY_KIND).join(',')}`);
+        return;
+      }
+      const filePath = state.artifacts?.[artifact.key];
+      if (!filePath || !fs.existsSync(filePath)) {
+        sendError(res, 404, `Artifact not available yet for run ${state.id} (status=${state.status})`);
+        return;
+      }
+      res.writeHead(200, {
+        'Content-Type': artifact.contentType,
+        'Content-Disposition': `attachment; filename="${path.basename(filePath)}"`
+      });
+      fs.createReadStream(filePath).pipe(res);
+      return;
+    }
+
+    sendError(res, 404, `Not found: ${method} ${url.pathname}`);
+  };
+
+  return (req, res) => {
+    handle(req, res).catch(error => {
+      if (res.headersSent) {
+        res.destroy(error instanceof Error ? error : undefined);
+        return;
+      }
+      sendError(res, 500, error instanceof Error ? error.message : String(error));
+    });
+  };
+}
+
+export function createApiServer(manager: RunManager): http.Server {
+  return http.createServer(createApiHandler(manager));
+}
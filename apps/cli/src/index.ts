@@ -1,6 +1,19 @@
 import fs from 'node:fs';
 import path from 'node:path';
-import { fileURLToPath, pathToFileURL } from 'node:url';
+import { fileURLToPath } from 'node:url';
+import {
+  parseDecodeOptions,
+  parseDiffOptions,
+  parseDiscoverOptions,
+  parseOptions,
+  runCertification,
+  runDecode,
+  runDiff,
+  runDiscover,
+  runFleet,
+  runListen,
+  runSoak
+} from '@exview/engine';
 
 type TruthRecord = {
   commandKey?: string;
@@ -71,4 +84,42 @@ const scriptDir = path.dirname(fileURLToPath(import.meta.url));
 const repoRoot = path.resolve(scriptDir, '..', '..', '..');
 ensureEngineTruthFile(repoRoot);
 
-await import(pathToFileURL(path.resolve(repoRoot, 'packages', 'engine', 'src', 'device-certify.ts')).href);
+const argv = process.argv.slice(2);
+
+try {
+  if (argv[0] === 'decode') {
+    const result = runDecode(parseDecodeOptions(argv));
+    if (result.invalid > 0) {
+      process.exitCode = 1;
+    }
+  } else if (argv[0] === 'discover') {
+    const result = await runDiscover(parseDiscoverOptions(argv));
+    if (result.devices.length === 0) {
+      process.exitCode = 1;
+    }
+  } else if (argv.includes('--diff')) {
+    runDiff(parseDiffOptions(argv));
+  } else {
+    const options = parseOptions(argv);
+    if (options.listen) {
+      const controller = new AbortController();
+      process.once('SIGINT', () => controller.abort());
+      await runListen(options, { signal: controller.signal });
+    } else if (options.soak) {
+      await runSoak(options);
+    } else if (options.fleet) {
+      const result = await runFleet(options);
+      if (result.report.devices.some(item => item.error || (item.golden && !item.golden.ok))) {
+        process.exitCode = 1;
+      }
+    } else {
+      const result = await runCertification(options);
+      if (result.golden && !result.golden.ok) {
+        process.exitCode = 1;
+      }
+    }
+  }
+} catch (error) {
+  console.error(error instanceof Error ? error.stack ?? error.message : String(error));
+  process.exitCode = 1;
+}
@@ -0,0 +1,386 @@
+// Dashboard client. Talks only to the HTTP API mounted under /api.
+
+const COLUMNS = [
+  { key: 'time', label: 'Time' },
+  { key: 'category', label: 'Category' },
+  { key: 'command', label: 'Command' },
+  { key: 'variant', label: 'Variant' },
+  { key: 'status', label: 'Status' },
+  { key: 'statusColor', label: 'Color' },
+  { key: 'matchType', label: 'Match' },
+  { key: 'latencyMs', label: 'Latency ms', numeric: true },
+  { key: 'meaning', label: 'Meaning' },
+  { key: 'txHex', label: 'TX', hex: true },
+  { key: 'rxHex', label: 'RX', hex: true },
+  { key: 'note', label: 'Note' }
+];
+
+const state = {
+  selected: null,
+  records: [],
+  sortKey: null,
+  sortAsc: true,
+  source: null
+};
+
+const $ = id => document.getElementById(id);
+
+function escapeHtml(value) {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+async function api(pathname, init) {
+  const response = await fetch(`/api${pathname}`, init);
+  const payload = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(payload.error ?? `HTTP ${response.status}`);
+  return payload;
+}
+
+function summaryText(summary) {
+  if (!summary) return '';
+  const base = `PASS=${summary.pass} FAIL=${summary.fail} NO_REPLY=${summary.noReply} SKIPPED=${summary.skipped}`;
+  const stale = (summary.lateReplies ?? 0) + (summary.unsolicitedFrames ?? 0);
+  return stale > 0 ? `${base} STALE=${stale}` : base;
+}
+
+function renderHead() {
+  $('record-head').innerHTML = COLUMNS.map(column => {
+    const arrow = state.sortKey === column.key ? (state.sortAsc ? ' ▲' : ' ▼') : '';
+    return `<th data-key="${column.key}">${escapeHtml(column.label)}${arrow}</th>`;
+  }).join('');
+}
+
+function compareRecords(a, b) {
+  const column = COLUMNS.find(item => item.key === state.sortKey);
+  const left = a[state.sortKey];
+  const right = b[state.sortKey];
+  let result;
+  if (left == null && right == null) result = 0;
+  else if (left == null) result = 1;
+  else if (right == null) result = -1;
+  else if (column?.numeric) result = Number(left) - Number(right);
+  else result = String(left).localeCompare(String(right));
+  return state.sortAsc ? result : -result;
+}
+
+function visibleRecords() {
+  const text = $('filter-text').value.trim().toLowerCase();
+  const status = $('filter-status').value;
+  const rows = state.records.filter(record => {
+    if (status && record.status !== status) return false;
+    if (!text) return true;
+    return [record.category, record.command, record.variant, record.commandKey, record.matchType, record.meaning, record.note, record.skipReason]
+      .some(value => value != null && String(value).toLowerCase().includes(text));
+  });
+  return state.sortKey ? [...rows].sort(compareRecords) : rows;
+}
+
+function renderCell(record, column) {
+  const value = record[column.key];
+  if (column.key === 'statusColor') {
+    return `<td><span class="badge ${escapeHtml(value)}">${escapeHtml(value)}</span></td>`;
+  }
+  if (column.key === 'note') {
+    return `<td>${escapeHtml([record.note, record.skipReason].filter(Boolean).join(' | '))}</td>`;
+  }
+  return `<td class="${column.hex ? 'hex' : ''}">${escapeHtml(value)}</td>`;
+}
+
+function renderRecords() {
+  const rows = visibleRecords();
+  $('record-body').innerHTML = rows
+    .map(record => `<tr class="${escapeHtml(record.status)}">${COLUMNS.map(column => renderCell(record, column)).join('')}</tr>`)
+    .join('');
+  $('row-count').textContent = `${rows.length} / ${state.records.length} rows`;
+}
+
+function renderMeta(lines) {
+  $('run-meta').innerHTML = lines.map(line => `<div>${escapeHtml(line)}</div>`).join('');
+}
+
+function renderProgress(view) {
+  const running = view?.status === 'running';
+  $('progress').hidden = !running;
+  if (!running) return;
+  $('progress-bar').max = Math.max(1, view.progress.total);
+  $('progress-bar').value = view.progress.index;
+  $('progress-text').textContent = `${view.progress.index}/${view.progress.total} ${summaryText(view.summary)}`;
+}
+
+function markSelected() {
+  for (const item of document.querySelectorAll('aside li')) {
+    item.classList.toggle('selected', item.dataset.id === state.selected);
+  }
+}
+
+function closeStream() {
+  state.source?.close();
+  state.source = null;
+}
+
+async function showHistory(file) {
+  closeStream();
+  state.selected = `history:${file}`;
+  markSelected();
+  const payload = await api(`/history/${encodeURIComponent(file)}`);
+  state.records = payload.records;
+  renderMeta([
+    file,
+    `Mode=${payload.options?.mode ?? '-'} Target=${payload.options ? `${payload.options.targetHost}:${payload.options.targetPort}` : '-'}`,
+    `Started=${payload.startedAt} Finished=${payload.finishedAt}`,
+    summaryText(payload.summary)
+  ]);
+  renderProgress(null);
+  renderRecords();
+}
+
+async function showRun(id) {
+  closeStream();
+  state.selected = `run:${id}`;
+  markSelected();
+  state.records = [];
+  const view = await api(`/runs/${encodeURIComponent(id)}`);
+  const meta = () => [
+    `Run ${view.id} (${view.status})`,
+    `Mode=${view.options.mode} Target=${view.target}`,
+    `Started=${view.startedAt ?? '-'} Finished=${view.finishedAt ?? '-'}`,
+    summaryText(view.summary),
+    ...(view.error ? [`Error: ${view.error}`] : [])
+  ];
+  renderMeta(meta());
+  renderProgress(view);
+  renderRecords();
+
+  // The event stream replays every record from the start, so no separate /records fetch is needed.
+  const source = new EventSource(`/api/runs/${encodeURIComponent(id)}/events`);
+  state.source = source;
+  source.addEventListener('run-started', event => {
+    const data = JSON.parse(event.data);
+    view.status = 'running';
+    view.startedAt = data.startedAt;
+    view.progress = { index: 0, total: data.total };
+    renderMeta(meta());
+    renderProgress(view);
+  });
+  source.addEventListener('record', event => {
+    const data = JSON.parse(event.data);
+    state.records.push(data.record);
+    view.progress = data.progress;
+    view.summary = data.summary;
+    renderProgress(view);
+    renderRecords();
+  });
+  source.addEventListener('run-finished', event => {
+    const data = JSON.parse(event.data);
+    Object.assign(view, data);
+    closeStream();
+    renderMeta(meta());
+    renderProgress(view);
+    refreshLists();
+  });
+}
+
+function renderList(element, items, describe) {
+  element.innerHTML = items.length
+    ? items.map(item => `<li data-id="${escapeHtml(item.id)}">${describe(item)}</li>`).join('')
+    : '<li>None</li>';
+  markSelected();
+}
+
+async function refreshLists() {
+  try {
+    const [history, runs] = await Promise.all([api('/history'), api('/runs')]);
+    renderList(
+      $('history'),
+      history.runs.map(entry => ({ ...entry, id: `history:${entry.file}` })),
+      entry => `<strong>${escapeHtml(entry.startedAt)}</strong><br>${escapeHtml(entry.mode)} ${escapeHtml(entry.target)}<br>${escapeHtml(summaryText(entry.summary))}`
+    );
+    renderList(
+      $('live-runs'),
+      runs.runs.map(view => ({ ...view, id: `run:${view.id}`, runId: view.id })),
+      view => `<strong>${escapeHtml(view.status)}</strong> ${escapeHtml(view.options.mode)} ${escapeHtml(view.target)}<br>${escapeHtml(`${view.progress.index}/${view.progress.total}`)} ${escapeHtml(summaryText(view.summary))}`
+    );
+  } catch (error) {
+    $('form-error').textContent = error.message;
+  }
+}
+
+function readRunForm(form) {
+  const data = new FormData(form);
+  const body = { mode: data.get('mode'), profile: data.get('profile'), includePower: data.get('includePower') === 'on' };
+  const [host, port] = String(data.get('target') ?? '').split(':');
+  if (host) body.targetHost = host;
+  if (port) body.targetPort = port;
+  for (const key of ['singleSelector', 'issuesFile', 'value', 'localPort', 'rate', 'timeoutMs', 'settleSetMs', 'settleModeMs']) {
+    const value = String(data.get(key) ?? '').trim();
+    if (value) body[key] = value;
+  }
+  return body;
+}
+
+$('run-form').addEventListener('submit', async event => {
+  event.preventDefault();
+  $('form-error').textContent = '';
+  try {
+    const view = await api('/runs', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(readRunForm(event.target))
+    });
+    await refreshLists();
+    await showRun(view.id);
+  } catch (error) {
+    $('form-error').textContent = error.message;
+  }
+});
+
+$('cancel-run').addEventListener('click', async () => {
+  if (!state.selected?.startsWith('run:')) return;
+  await api(`/runs/${encodeURIComponent(state.selected.slice('run:'.length))}/cancel`, { method: 'POST' }).catch(error => {
+    $('form-error').textContent = error.message;
+  });
+});
+
+for (const list of [$('history'), $('live-runs')]) {
+  list.addEventListener('click', event => {
+    const item = event.target.closest('li');
+    const id = item?.dataset.id;
+    if (!id) return;
+    const action = id.startsWith('history:') ? showHistory(id.slice('history:'.length)) : showRun(id.slice('run:'.length));
+    action.catch(error => renderMeta([error.message]));
+  });
+}
+
+$('record-head').addEventListener('click', event => {
+  const key = event.target.closest('th')?.dataset.key;
+  if (!key) return;
+  state.sortAsc = state.sortKey === key ? !state.sortAsc : true;
+  state.sortKey = key;
+  renderHead();
+  renderRecords();
+});
+
+// Console: one-off exchanges decoded the same way as --single --debug-hex.
+
+const consoleState = { commands: [] };
+
+async function loadCommands() {
+  const payload = await api('/commands');
+  consoleState.commands = payload.commands;
+  const groups = new Map();
+  for (const command of payload.commands) {
+    const group = groups.get(command.category) ?? [];
+    group.push(command);
+    groups.set(command.category, group);
+  }
+  $('console-command').innerHTML = [...groups.entries()]
+    .map(([category, commands]) => {
+      const options = commands
+        .map(command => {
+          const flags = [command.numeric ? 'value' : null, command.power ? 'power' : null, command.serialOnly ? 'serial-only' : null].filter(Boolean);
+          const suffix = flags.length ? ` [${flags.join(', ')}]` : '';
+          return `<option value="${escapeHtml(command.selector)}">${escapeHtml(`${command.description}${suffix}`)}</option>`;
+        })
+        .join('');
+      return `<optgroup label="${escapeHtml(category)}">${options}</optgroup>`;
+    })
+    .join('');
+  syncValueInput();
+}
+
+function syncValueInput() {
+  const selected = consoleState.commands.find(command => command.selector === $('console-command').value);
+  $('console-value').disabled = !selected?.numeric;
+}
+
+function hexCell(value) {
+  return `<td class="hex">${escapeHtml(value ?? '-')}</td>`;
+}
+
+function renderFrame(title, frame) {
+  if (!frame) return '';
+  const ack = frame.ackStatus == null ? '-' : `0x${frame.ackStatus.toString(16).toUpperCase().padStart(4, '0')} ${frame.ackMeaning}`;
+  const rows = [
+    ['Reply code', frame.replyCode ? `0x${frame.replyCode} (byte ${frame.replyCodeIndex})` : '-'],
+    ['Payload length', frame.payloadMarkerIndex == null ? '-' : `byte ${frame.payloadMarkerIndex}`],
+    ['Payload', frame.payloadHex ?? '-'],
+    ['Checksum', frame.checksumOk == null ? '-' : frame.checksumOk ? 'ok' : 'mismatch'],
+    ['Decode error', frame.decodeError ?? '-'],
+    ['ACK', ack],
+    ['Latency ms', frame.latencyMs ?? '-']
+  ];
+  return `<h3>${escapeHtml(title)}</h3>
+    <table class="frames">
+      <tr><th>TX</th><th>RX</th></tr>
+      <tr>${hexCell(frame.txHex)}${hexCell(frame.rxHex ?? 'no reply')}</tr>
+    </table>
+    <table class="frames">${rows.map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`).join('')}</table>`;
+}
+
+function renderExchange(exchange) {
+  const record = exchange.record;
+  const notes = [record.note, record.skipReason, ...(record.notes ?? [])].filter(Boolean);
+  $('console-result').innerHTML = `
+    <div class="meta">
+      <div><span class="badge ${escapeHtml(record.statusColor)}">${escapeHtml(record.status)}</span> ${escapeHtml(record.commandKey)} ${escapeHtml(record.matchType)}</div>
+      <div>${escapeHtml(record.meaning ?? '')}</div>
+      ${notes.map(note => `<div>${escapeHtml(note)}</div>`).join('')}
+    </div>
+    ${renderFrame('Primary', exchange.primary)}
+    ${renderFrame('Closed-loop query', exchange.query)}
+    <h3>Parsed</h3>
+    <pre>${escapeHtml(JSON.stringify(record.parsed, null, 2))}</pre>
+    <h3>Debug log</h3>
+    <pre>${escapeHtml(exchange.log.join('\n'))}</pre>`;
+}
+
+$('console-command').addEventListener('change', syncValueInput);
+
+$('console-form').addEventListener('submit', async event => {
+  event.preventDefault();
+  $('console-error').textContent = '';
+  const data = new FormData(event.target);
+  const body = { singleSelector: data.get('singleSelector') };
+  const [host, port] = String(data.get('target') ?? '').split(':');
+  if (host) body.targetHost = host;
+  if (port) body.targetPort = port;
+  for (const key of ['value', 'localPort', 'timeoutMs', 'settleSetMs']) {
+    const value = String(data.get(key) ?? '').trim();
+    if (value) body[key] = value;
+  }
+  const button = event.target.querySelector('button');
+  button.disabled = true;
+  try {
+    renderExchange(
+      await api('/console', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) })
+    );
+  } catch (error) {
+    $('console-error').textContent = error.message;
+  } finally {
+    button.disabled = false;
+  }
+});
+
+for (const tab of document.querySelectorAll('.tabs button')) {
+  tab.addEventListener('click', () => {
+    for (const other of document.querySelectorAll('.tabs button')) {
+      other.classList.toggle('active', other === tab);
+      $(other.dataset.view).hidden = other !== tab;
+    }
+  });
+}
+
+$('filter-text').addEventListener('input', renderRecords);
+$('filter-status').addEventListener('change', renderRecords);
+
+renderHead();
+refreshLists();
+loadCommands().catch(error => {
+  $('console-error').textContent = error.message;
+});
+setInterval(refreshLists, 5000);
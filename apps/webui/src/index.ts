@@ -0,0 +1,101 @@
+import fs from 'node:fs';
+import http from 'node:http';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createApiHandler, createRunManager } from '@exview/api';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8'
+};
+
+function printHelp(): void {
+  console.log('Usage: npm run webui -- [options]');
+  console.log('');
+  console.log('Options:');
+  console.log('  --port <port>                HTTP port. Default: 8710');
+  console.log('  --host <address>             Address to bind. Default: 127.0.0.1');
+  console.log('  --help                       Show this help');
+}
+
+function parseOptions(argv: string[]): { host: string; port: number } {
+  let host = '127.0.0.1';
+  let port = 8710;
+
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index];
+
+    if (arg === '--help') {
+      printHelp();
+      process.exit(0);
+    }
+
+    if (arg === '--port') {
+      const next = argv[index + 1];
+      if (!next) throw new Error('--port requires a port');
+      index += 1;
+      const numeric = Number(next);
+      if (!Number.isFinite(numeric) || numeric < 1 || numeric > 65535) {
+        throw new Error(`Invalid --port: ${next}`);
+      }
+      port = numeric;
+      continue;
+    }
+
+    if (arg === '--host') {
+      const next = argv[index + 1];
+      if (!next) throw new Error('--host requires an address');
+      index += 1;
+      host = next;
+      continue;
+    }
+
+    throw new Error(`Unknown argument: ${arg}`);
+  }
+
+  return { host, port };
+}
+
+function serveStatic(publicDir: string, pathname: string, res: http.ServerResponse): void {
+  const relative = pathname === '/' ? 'index.html' : pathname.replace(/^\/+/, '');
+  const filePath = path.resolve(publicDir, relative);
+  if (!filePath.startsWith(publicDir + path.sep) || !fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
+    res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' });
+    res.end(`Not found: ${pathname}`);
+    return;
+  }
+  res.writeHead(200, { 'Content-Type': CONTENT_TYPES[path.extname(filePath)] ?? 'application/octet-stream' });
+  fs.createReadStream(filePath).pipe(res);
+}
+
+async function run(): Promise<void> {
+  const options = parseOptions(process.argv.slice(2));
+  const scriptDir = path.dirname(fileURLToPath(import.meta.url));
+  const publicDir = path.resolve(scriptDir, '..', 'public');
+  const api = createApiHandler(createRunManager());
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname === '/api' || url.pathname.startsWith('/api/')) {
+      req.url = (req.url ?? '/').slice('/api'.length) || '/';
+      api(req, res);
+      return;
+    }
+    serveStatic(publicDir, url.pathname, res);
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+  console.log(`Certification dashboard at http://${options.host}:${options.port}`);
+}
+
+run().catch(error => {
+  console.error(error instanceof Error ? error.stack ?? error.message : String(error));
+  process.exitCode = 1;
+});
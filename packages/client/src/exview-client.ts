@@ -0,0 +1,349 @@
+import {
+  DEFAULT_OPTIONS,
+  ackMeaning,
+  buildCaseFromTruthRow,
+  buildGeneratedNumericCase,
+  bytesToHex,
+  createTransport,
+  decodeReply,
+  defaultRootDir,
+  indexTruth,
+  loadTruth,
+  normalizeCode,
+  parseAckStatus,
+  parseReplyForRow,
+  sendAndAwaitReply,
+  toCode,
+  type CertifyCase,
+  type Transport,
+  type TransportKind,
+  type TruthIndex
+} from '@exview/engine';
+
+export type LevelName = 'volume' | 'brightness' | 'contrast' | 'saturation' | 'hue' | 'redGain' | 'greenGain' | 'blueGain';
+export type VideoSource = 'ANDROID' | 'HDMI1' | 'HDMI2' | 'HDMI3' | 'HDMI4';
+export type ColorTemperature = 'STANDARD' | 'WARM' | 'COOL' | 'USER';
+export type SceneMode = 'CONFERENCE' | 'STANDARD' | 'SOFT' | 'CUSTOM' | 'THEATER';
+export type SplitScreenMode = 'FULL' | 'DUAL' | 'CENTER' | 'QUAD' | 'FIVE' | 'CUSTOM';
+
+export interface ExviewClientOptions {
+  transport?: TransportKind;
+  targetHost?: string;
+  targetPort?: number;
+  localPort?: number;
+  timeoutMs?: number;
+  rootDir?: string;
+}
+
+export interface CommandReply {
+  commandKey: string;
+  txHex: string;
+  rxHex: string;
+  replyCode: string | null;
+  latencyMs: number | null;
+}
+
+export interface AckReply extends CommandReply {
+  ok: boolean;
+  ackStatus: number | null;
+  ackMeaning: string | null;
+}
+
+export interface QueryReply<T> extends CommandReply {
+  value: T;
+  meaning: string;
+}
+
+export interface VideoCombo {
+  brightness: number;
+  colorTemp: number;
+  colorTempText: string;
+  displayMode: number;
+  displayModeText: string;
+  videoSource: number;
+  videoSourceText: string;
+  volume: number;
+  contrast: number;
+  sceneMode: number;
+  sceneModeText: string;
+}
+
+export interface HdmiPresence {
+  hdmi1: 0 | 1;
+  hdmi2: 0 | 1;
+  hdmi3: 0 | 1;
+  hdmi4: 0 | 1;
+  payloadHex: string;
+  activeInputs: string[];
+}
+
+const ACK_SUCCESS = 0x0001;
+
+const LEVEL_SET_CODES: Record<LevelName, string> = {
+  volume: 'C203',
+  brightness: 'C21F',
+  contrast: 'C217',
+  saturation: 'C259',
+  hue: 'C262',
+  redGain: 'C223',
+  greenGain: 'C227',
+  blueGain: 'C22B'
+};
+
+// Truth rows rather than hand-built frames: HDMI4 is 0x06 on the wire, not 0x05.
+const VIDEO_SOURCE_KEYS: Record<VideoSource, string> = {
+  ANDROID: '0xC213:0-android',
+  HDMI1: '0xC213:2-hdmi1',
+  HDMI2: '0xC213:3-hdmi2',
+  HDMI3: '0xC213:4-hdmi3',
+  HDMI4: '0xC213:5-hdmi4'
+};
+
+const COLOR_TEMPERATURE_KEYS: Record<ColorTemperature, string> = {
+  STANDARD: '0xC21B:standard-0x01',
+  WARM: '0xC21B:warm-color-0x02',
+  COOL: '0xC21B:cool-color-0x03',
+  USER: '0xC21B:user-0x04'
+};
+
+const SCENE_MODE_KEYS: Record<SceneMode, string> = {
+  CONFERENCE: '0xC245:conference-mode',
+  STANDARD: '0xC245:standard-demo-mode',
+  SOFT: '0xC245:soft-eco-mode',
+  CUSTOM: '0xC245:custom-mode',
+  THEATER: '0xC245:theater-mode'
+};
+
+const SPLIT_SCREEN_KEYS: Record<SplitScreenMode, string> = {
+  FULL: '0xC249:full-screen-mode',
+  DUAL: '0xC249:dual-screen-mode',
+  CENTER: '0xC249:center-mode',
+  QUAD: '0xC249:quadrature-split-screen-mode',
+  FIVE: '0xC249:five-split-screen-mode',
+  CUSTOM: '0xC249:custom-mode'
+};
+
+const VIDEO_COMBO_QUERY = 'C241';
+const HDMI_PRESENCE_QUERY = 'C25B';
+const UPTIME_QUERY = 'C33D';
+
+type ParsedFields = Record<string, unknown> | null;
+
+function numberField(parsed: ParsedFields, field: string, commandKey: string): number {
+  const value = parsed?.[field];
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new Error(`${commandKey}: reply has no numeric ${field}`);
+  return value;
+}
+
+function stringField(parsed: ParsedFields, field: string, commandKey: string): string {
+  const value = parsed?.[field];
+  if (typeof value !== 'string') throw new Error(`${commandKey}: reply has no ${field} text`);
+  return value;
+}
+
+function flagField(parsed: ParsedFields, field: string, commandKey: string): 0 | 1 {
+  const value = numberField(parsed, field, commandKey);
+  if (value !== 0 && value !== 1) throw new Error(`${commandKey}: ${field} is ${value}, expected 0 or 1`);
+  return value;
+}
+
+function toVideoCombo(parsed: ParsedFields, commandKey: string): VideoCombo {
+  return {
+    brightness: numberField(parsed, 'brightness', commandKey),
+    colorTemp: numberField(parsed, 'colorTemp', commandKey),
+    colorTempText: stringField(parsed, 'colorTempText', commandKey),
+    displayMode: numberField(parsed, 'displayMode', commandKey),
+    displayModeText: stringField(parsed, 'displayModeText', commandKey),
+    videoSource: numberField(parsed, 'videoSource', commandKey),
+    videoSourceText: stringField(parsed, 'videoSourceText', commandKey),
+    volume: numberField(parsed, 'volume', commandKey),
+    contrast: numberField(parsed, 'contrast', commandKey),
+    sceneMode: numberField(parsed, 'sceneMode', commandKey),
+    sceneModeText: stringField(parsed, 'sceneModeText', commandKey)
+  };
+}
+
+function toHdmiPresence(parsed: ParsedFields, commandKey: string): HdmiPresence {
+  const activeInputs = parsed?.activeInputs;
+  if (!Array.isArray(activeInputs) || !activeInputs.every(input => typeof input === 'string')) {
+    throw new Error(`${commandKey}: reply has no activeInputs list`);
+  }
+  return {
+    hdmi1: flagField(parsed, 'hdmi1', commandKey),
+    hdmi2: flagField(parsed, 'hdmi2', commandKey),
+    hdmi3: flagField(parsed, 'hdmi3', commandKey),
+    hdmi4: flagField(parsed, 'hdmi4', commandKey),
+    payloadHex: stringField(parsed, 'payloadHex', commandKey),
+    activeInputs
+  };
+}
+
+// Controls one display using the engine's truth-backed frames. Commands are sent one at a time; the
+// transport is opened on first use and released by close().
+export class ExviewClient {
+  readonly transportKind: TransportKind;
+  readonly targetHost: string;
+  readonly targetPort: number;
+  readonly localPort: number;
+  readonly timeoutMs: number;
+  private readonly truth: TruthIndex;
+  private transport: Transport | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(options: ExviewClientOptions = {}) {
+    this.transportKind = options.transport ?? DEFAULT_OPTIONS.transport;
+    this.targetHost = options.targetHost ?? DEFAULT_OPTIONS.targetHost;
+    this.targetPort = options.targetPort ?? DEFAULT_OPTIONS.targetPort;
+    this.localPort = options.localPort ?? DEFAULT_OPTIONS.localPort;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_OPTIONS.timeoutMs;
+    this.truth = indexTruth(loadTruth(options.rootDir ?? defaultRootDir()));
+  }
+
+  async setLevel(level: LevelName, value: number): Promise<AckReply> {
+    if (!Number.isInteger(value) || value < 0 || value > 100) {
+      throw new Error(`Invalid ${level} value: ${value} (expected an integer 0-100)`);
+    }
+    const spec = this.truth.numericSpecs.get(LEVEL_SET_CODES[level]);
+    if (!spec) throw new Error(`No truth rows for ${level} (0x${LEVEL_SET_CODES[level]})`);
+    return this.sendSet(buildGeneratedNumericCase(spec, value, 'generated'));
+  }
+
+  async getLevel(level: LevelName): Promise<QueryReply<number>> {
+    const queryRow = this.truth.numericSpecs.get(LEVEL_SET_CODES[level])?.queryRow;
+    if (!queryRow) throw new Error(`No query command for ${level}`);
+    const reply = await this.sendQuery(queryRow.commandKey);
+    if (reply.value.value == null) throw new Error(`${queryRow.commandKey}: ${reply.meaning}`);
+    return { ...reply, value: reply.value.value };
+  }
+
+  setVolume(value: number): Promise<AckReply> {
+    return this.setLevel('volume', value);
+  }
+
+  getVolume(): Promise<QueryReply<number>> {
+    return this.getLevel('volume');
+  }
+
+  setBrightness(value: number): Promise<AckReply> {
+    return this.setLevel('brightness', value);
+  }
+
+  getBrightness(): Promise<QueryReply<number>> {
+    return this.getLevel('brightness');
+  }
+
+  async setVideoSource(source: VideoSource): Promise<AckReply> {
+    return this.sendSet(this.caseFor(VIDEO_SOURCE_KEYS[source]));
+  }
+
+  async setColorTemperature(mode: ColorTemperature): Promise<AckReply> {
+    return this.sendSet(this.caseFor(COLOR_TEMPERATURE_KEYS[mode]));
+  }
+
+  async setSceneMode(mode: SceneMode): Promise<AckReply> {
+    return this.sendSet(this.caseFor(SCENE_MODE_KEYS[mode]));
+  }
+
+  async setSplitScreenMode(mode: SplitScreenMode): Promise<AckReply> {
+    return this.sendSet(this.caseFor(SPLIT_SCREEN_KEYS[mode]));
+  }
+
+  async getVideoCombo(): Promise<QueryReply<VideoCombo>> {
+    const reply = await this.sendQuery(this.queryKey(VIDEO_COMBO_QUERY));
+    return { ...reply, value: toVideoCombo(reply.value.parsed, reply.commandKey) };
+  }
+
+  async getHdmiPresence(): Promise<QueryReply<HdmiPresence>> {
+    const reply = await this.sendQuery(this.queryKey(HDMI_PRESENCE_QUERY));
+    return { ...reply, value: toHdmiPresence(reply.value.parsed, reply.commandKey) };
+  }
+
+  async getUptimeMinutes(): Promise<QueryReply<number>> {
+    const reply = await this.sendQuery(this.queryKey(UPTIME_QUERY));
+    return { ...reply, value: numberField(reply.value.parsed, 'minutes', reply.commandKey) };
+  }
+
+  close(): Promise<void> {
+    return this.enqueue(async () => {
+      const transport = this.transport;
+      this.transport = null;
+      await transport?.close();
+    });
+  }
+
+  private caseFor(commandKey: string): CertifyCase {
+    const row = this.truth.byKey.get(commandKey);
+    if (!row) throw new Error(`Command ${commandKey} is not in the truth set`);
+    return buildCaseFromTruthRow(row, 'truth');
+  }
+
+  private queryKey(setCode: string): string {
+    const row = this.truth.bySetCode.get(setCode)?.[0];
+    if (!row) throw new Error(`Command 0x${setCode} is not in the truth set`);
+    return row.commandKey;
+  }
+
+  private async open(): Promise<Transport> {
+    if (this.transport) return this.transport;
+    const transport = createTransport(this.transportKind, { host: this.targetHost, port: this.targetPort, localPort: this.localPort });
+    try {
+      await transport.open();
+    } catch (error) {
+      await transport.close();
+      throw error;
+    }
+    this.transport = transport;
+    return transport;
+  }
+
+  // One exchange in flight at a time: replies are matched to whichever command is pending.
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const next = this.queue.then(task, task);
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private exchange(caseItem: CertifyCase): Promise<{ reply: CommandReply; rxBytes: number[] }> {
+    return this.enqueue(async () => {
+      const transport = await this.open();
+      const replyCode = normalizeCode(caseItem.replyCode);
+      const result = await sendAndAwaitReply(transport, caseItem.txBytes, this.timeoutMs, {
+        commandKey: caseItem.commandKey,
+        replyCodes: replyCode ? [replyCode] : null
+      });
+      if (!result.rxBytes) {
+        throw new Error(`No reply to ${caseItem.commandKey} within ${this.timeoutMs} ms`);
+      }
+      const decoded = decodeReply(result.rxBytes);
+      if (decoded.error) {
+        throw new Error(`Reply to ${caseItem.commandKey} is not a valid frame: ${decoded.error.message}`);
+      }
+      if (replyCode && decoded.replyCode !== replyCode) {
+        throw new Error(`Reply to ${caseItem.commandKey} has code ${toCode(decoded.replyCode)}, expected ${toCode(replyCode)}`);
+      }
+      const reply: CommandReply = {
+        commandKey: caseItem.commandKey,
+        txHex: bytesToHex(caseItem.txBytes),
+        rxHex: bytesToHex(result.rxBytes),
+        replyCode: toCode(decoded.replyCode),
+        latencyMs: result.latencyMs
+      };
+      return { reply, rxBytes: result.rxBytes };
+    });
+  }
+
+  private async sendSet(caseItem: CertifyCase): Promise<AckReply> {
+    const { reply, rxBytes } = await this.exchange(caseItem);
+    const ackStatus = parseAckStatus(decodeReply(rxBytes));
+    return { ...reply, ok: ackStatus === ACK_SUCCESS, ackStatus, ackMeaning: ackMeaning(ackStatus) };
+  }
+
+  private async sendQuery(commandKey: string): Promise<QueryReply<{ parsed: Record<string, unknown> | null; value: number | null }>> {
+    const row = this.truth.byKey.get(commandKey)!;
+    const { reply, rxBytes } = await this.exchange(buildCaseFromTruthRow(row, 'truth'));
+    const parsed = parseReplyForRow(row, rxBytes);
+    if (!parsed) throw new Error(`No semantic parser for ${commandKey}`);
+    if (!parsed.ok) throw new Error(`${commandKey}: ${parsed.meaning}`);
+    return { ...reply, value: { parsed: parsed.parsed, value: parsed.value }, meaning: parsed.meaning };
+  }
+}
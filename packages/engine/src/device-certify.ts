@@ -2,25 +2,84 @@ import dgram from 'node:dgram';
 import fs from 'node:fs';
 import path from 'node:path';
 import readline from 'node:readline';
-import { isIP } from 'node:net';
 import { fileURLToPath } from 'node:url';
+import {
+  CONTROLLER_ADDRESS,
+  DISPLAY_ADDRESS,
+  FRAME_HEADER_LENGTH,
+  FRAME_OFFSETS,
+  FRAME_PREAMBLE,
+  MIN_FRAME_LENGTH,
+  computeFrameChecksum,
+  decodeFrame,
+  encodeFrame,
+  formatCommandCode,
+  hasFramePreamble,
+  type FrameError
+} from '@exview/protocol';
+import {
+  SERIAL_PARITIES,
+  TRANSPORT_KINDS,
+  bindSocket,
+  createSerialTransport,
+  createTransport,
+  type ReceivedFrame,
+  type SerialParity,
+  type Transport,
+  type TransportKind
+} from './transport.ts';
+
+export {
+  SERIAL_PARITIES,
+  TRANSPORT_KINDS,
+  bindSocket,
+  createSerialTransport,
+  createTcpTransport,
+  createTransport,
+  createUdpTransport,
+  type ReceivedFrame,
+  type SerialParity,
+  type SerialTarget,
+  type Transport,
+  type TransportKind,
+  type TransportTarget
+} from './transport.ts';
+
+export type RunMode = 'single' | 'suite' | 'sanity' | 'issues';
+export type ProfileName = 'exview-aio' | 'generic';
+export type ValidationMode = 'STRICT_EXACT' | 'STRUCTURE_ONLY' | 'PARSED_RANGE' | 'EXPECTED_NO_REPLY';
+export type TransportStatus = 'REPLY' | 'NO_REPLY';
+export type StatusColor = 'GREEN' | 'YELLOW' | 'RED' | 'GRAY';
+export type ResultStatus = 'PASS' | 'FAIL' | 'NO_REPLY' | 'SKIPPED';
+export type ReportFormat = 'junit' | 'tap';
+export type RetryOutcome = 'no-reply' | 'busy' | 'occupied';
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  backoffMs: number;
+  retryOn: RetryOutcome[];
+}
 
-type RunMode = 'single' | 'suite' | 'sanity' | 'issues';
-type ProfileName = 'exview-aio' | 'generic';
-type ValidationMode = 'STRICT_EXACT' | 'STRUCTURE_ONLY' | 'PARSED_RANGE' | 'EXPECTED_NO_REPLY';
-type TransportStatus = 'REPLY' | 'NO_REPLY';
-type StatusColor = 'GREEN' | 'YELLOW' | 'RED' | 'GRAY';
-type ResultStatus = 'PASS' | 'FAIL' | 'NO_REPLY' | 'SKIPPED';
-
-interface CliOptions {
+export interface CliOptions {
   mode: RunMode;
   profile: ProfileName;
   singleSelector?: string;
   issuesFile?: string;
   value?: number;
+  golden?: string;
+  soak?: SoakLimit;
+  listen?: ListenLimit;
+  fleet?: FleetOptions;
+  // Set by fleet runs; added to artifact file names so concurrent runs do not collide.
+  deviceName?: string;
+  transport: TransportKind;
   targetHost: string;
   targetPort: number;
   localPort: number;
+  // Serial-only truth rows are sent here; without it they are recorded as SKIPPED.
+  serialPort?: string;
+  baudRate: number;
+  parity: SerialParity;
   timeoutMs: number;
   rate: number;
   settleSetMs: number;
@@ -29,9 +88,27 @@ interface CliOptions {
   debugHex: boolean;
   promptEach: boolean;
   columns: string[];
+  reports: ReportFormat[];
+  repeat: number;
+  retry: RetryPolicy;
+}
+
+export interface SoakLimit {
+  iterations: number | null;
+  durationMs: number | null;
+}
+
+export interface FleetOptions {
+  inventory: string;
+  concurrency: number;
+}
+
+export interface ListenLimit {
+  // null listens until the run is aborted (Ctrl+C).
+  durationMs: number | null;
 }
 
-interface TruthCommandRow {
+export interface TruthCommandRow {
   rowNumber: number;
   commandKey: string;
   category: string;
@@ -46,7 +123,7 @@ interface TruthCommandRow {
   excludedReason?: string;
 }
 
-interface TruthFile {
+export interface TruthFile {
   commands: TruthCommandRow[];
 }
 
@@ -59,6 +136,15 @@ interface SuiteExclusionFile {
   excludeFromSuite: SuiteExclusionEntry[];
 }
 
+export interface LatencyBudget {
+  warnMs: number | null;
+  failMs: number | null;
+}
+
+interface LatencyBudgetFile {
+  budgets: Array<{ code: string; warnMs?: number; failMs?: number }>;
+}
+
 interface IssueRecord {
   commandKey?: string;
   setCode?: string;
@@ -68,7 +154,7 @@ interface IssueRecord {
   matchType?: string;
 }
 
-interface NumericSpec {
+export interface NumericSpec {
   setCode: string;
   valueIndex: number;
   checksumIndex: number;
@@ -77,7 +163,7 @@ interface NumericSpec {
   queryRow?: TruthCommandRow;
 }
 
-interface CertifyCase {
+export interface CertifyCase {
   id: string;
   stage: 'AUTO' | 'POWER_MANUAL';
   source: 'truth' | 'generated' | 'sanity';
@@ -90,6 +176,8 @@ interface CertifyCase {
   expectedReplyBytes: number[] | null;
   generatedValue: number | null;
   serialOnly: boolean;
+  // Truth transport NO_REPLY: the row was captured without an answer from the display.
+  noReplyExpected: boolean;
   isSetCommand: boolean;
   isModeChangeCommand: boolean;
   isPowerCommand: boolean;
@@ -98,7 +186,7 @@ interface CertifyCase {
   expectedQueryValue?: number;
 }
 
-interface CertifyRecord {
+export interface CertifyRecord {
   time: string;
   stage: string;
   source: string;
@@ -128,28 +216,62 @@ interface CertifyRecord {
   queryTransportStatus: TransportStatus | null;
   queryValue: number | null;
   expectedValue: number | null;
+  repeatIndex: number | null;
+  retries: RetryAttempt[];
+  staleFrames: StaleFrame[];
   notes: string[];
 }
 
-interface SendResult {
+export interface RetryAttempt {
+  attempt: number;
+  outcome: RetryOutcome;
+  txHex: string | null;
+  rxHex: string | null;
+  latencyMs: number | null;
+  queryTxHex: string | null;
+  queryRxHex: string | null;
+  queryLatencyMs: number | null;
+  status: ResultStatus;
+  matchType: string;
+}
+
+export interface SendResult {
   rxBytes: number[] | null;
   latencyMs: number | null;
+  staleFrames: StaleFrame[];
+}
+
+export type StaleFrameKind = 'LATE' | 'UNSOLICITED';
+
+export interface StaleFrame {
+  kind: StaleFrameKind;
+  rxHex: string;
+  replyCode: string | null;
+  receivedAt: string;
+  lateFor: string | null;
+}
+
+export interface ReplyExpectation {
+  commandKey: string;
+  // Normalized reply codes that answer this command; null accepts any datagram.
+  replyCodes: string[] | null;
 }
 
-interface PayloadDecode {
+export interface PayloadDecode {
   markerIndex: number;
   dataLength: number;
   data: number[];
-  ambiguous: boolean;
 }
 
-interface ReplyDecode {
+export interface ReplyDecode {
   replyCode: string | null;
   replyCodeIndex: number | null;
   payload: PayloadDecode | null;
+  checksumOk: boolean | null;
+  error: FrameError | null;
 }
 
-interface ParseResult {
+export interface ParseResult {
   ok: boolean;
   parsed: Record<string, unknown> | null;
   meaning: string;
@@ -157,6 +279,409 @@ interface ParseResult {
   note?: string;
 }
 
+export type FrameRole = 'primary' | 'query';
+
+export type RunEvent =
+  | { type: 'run-started'; startedAt: string; options: CliOptions; total: number }
+  | { type: 'case-started'; index: number; total: number; commandKey: string; category: string; description: string }
+  | { type: 'frame-sent'; commandKey: string; role: FrameRole; txHex: string }
+  | { type: 'frame-received'; commandKey: string; role: FrameRole; rxHex: string | null; latencyMs: number | null }
+  | { type: 'case-finished'; index: number; total: number; record: CertifyRecord }
+  | { type: 'case-skipped'; index: number; total: number; record: CertifyRecord; reason: string }
+  | { type: 'prompt-required'; commandKey: string; message: string }
+  | {
+      type: 'run-finished';
+      startedAt: string;
+      finishedAt: string;
+      summary: RunSummary;
+      artifacts: RunArtifacts;
+      cancelled: boolean;
+    };
+
+export type RunEventType = RunEvent['type'];
+export type RunEventListener = (event: RunEvent) => void;
+
+export interface RunEventBus {
+  subscribe(listener: RunEventListener): () => void;
+  emit: RunEventListener;
+}
+
+export interface RunHooks {
+  log?: (line: string) => void;
+  warn?: (line: string) => void;
+  prompt?: (message: string) => Promise<void>;
+  onEvent?: RunEventListener;
+  signal?: AbortSignal;
+}
+
+export interface RunArtifacts {
+  jsonPath: string;
+  csvPath: string;
+  htmlPath: string;
+  issuesJsonPath: string;
+  issuesCsvPath: string;
+  latencyCsvPath: string;
+  junitPath?: string;
+  tapPath?: string;
+}
+
+export interface RunSummary {
+  pass: number;
+  fail: number;
+  noReply: number;
+  skipped: number;
+  lateReplies: number;
+  unsolicitedFrames: number;
+}
+
+export interface CertificationResult {
+  startedAt: Date;
+  finishedAt: Date;
+  records: CertifyRecord[];
+  summary: RunSummary;
+  artifacts: RunArtifacts;
+  cancelled: boolean;
+  latency: LatencyReport;
+  flakiness?: FlakinessReport;
+  golden?: GoldenComparison;
+}
+
+export interface LatencyStats {
+  count: number;
+  min: number;
+  median: number;
+  p95: number;
+  p99: number;
+  max: number;
+}
+
+export interface LatencyHistogramBucket {
+  label: string;
+  upToMs: number | null;
+  count: number;
+}
+
+export interface LatencyReport {
+  overall: LatencyStats | null;
+  byCode: Record<string, LatencyStats>;
+  byCategory: Record<string, LatencyStats>;
+  histogram: LatencyHistogramBucket[];
+  budgetWarnings: number;
+  budgetFailures: number;
+}
+
+export type FlakinessClass = 'STABLE_PASS' | 'FLAKY' | 'STABLE_FAIL';
+
+export interface FlakinessEntry {
+  key: string;
+  commandKey: string;
+  category: string;
+  variant: string;
+  attempts: number;
+  passes: number;
+  passRatio: number;
+  classification: FlakinessClass;
+}
+
+export interface FlakinessReport {
+  repeat: number;
+  stablePass: number;
+  flaky: number;
+  stableFail: number;
+  entries: FlakinessEntry[];
+}
+
+export interface RunArtifactPayload {
+  startedAt: string;
+  finishedAt: string;
+  options: CliOptions;
+  summary: RunSummary;
+  latency?: LatencyReport;
+  records: CertifyRecord[];
+}
+
+export interface RunHistoryEntry {
+  file: string;
+  startedAt: string;
+  finishedAt: string;
+  mode: RunMode;
+  target: string;
+  total: number;
+  summary: RunSummary;
+}
+
+export interface CommandCatalogEntry {
+  selector: string;
+  category: string;
+  description: string;
+  setCode: string | null;
+  numeric: boolean;
+  serialOnly: boolean;
+  power: boolean;
+}
+
+export interface FrameDecode {
+  txHex: string;
+  rxHex: string | null;
+  latencyMs: number | null;
+  replyCode: string | null;
+  replyCodeIndex: number | null;
+  payloadMarkerIndex: number | null;
+  payloadHex: string | null;
+  checksumOk: boolean | null;
+  decodeError: string | null;
+  ackStatus: number | null;
+  ackMeaning: string | null;
+}
+
+export interface ConsoleExchange {
+  record: CertifyRecord;
+  primary: FrameDecode | null;
+  query: FrameDecode | null;
+  log: string[];
+}
+
+export type GoldenField = 'status' | 'matchType' | 'validationMode' | 'parsed';
+
+export interface GoldenDivergence {
+  key: string;
+  field: GoldenField;
+  expected: string;
+  actual: string;
+}
+
+export interface GoldenComparison {
+  baselinePath: string;
+  compared: number;
+  divergences: GoldenDivergence[];
+  missing: string[];
+  unexpected: string[];
+  expectedSummary: RunSummary;
+  actualSummary: RunSummary;
+  ok: boolean;
+}
+
+export type DiffField = 'status' | 'matchType' | 'rxHex' | 'parsed' | 'meaning';
+
+export interface DiffOptions {
+  baseFile: string;
+  compareFile: string;
+  latencyThresholdMs: number;
+}
+
+export interface RecordChange {
+  key: string;
+  category: string;
+  variant: string;
+  changes: Array<{ field: DiffField; before: string; after: string }>;
+  latencyBefore: number | null;
+  latencyAfter: number | null;
+  latencyShifted: boolean;
+}
+
+export interface RunDiff {
+  basePath: string;
+  comparePath: string;
+  baseStartedAt: string;
+  compareStartedAt: string;
+  latencyThresholdMs: number;
+  baseSummary: RunSummary;
+  compareSummary: RunSummary;
+  changed: RecordChange[];
+  added: string[];
+  removed: string[];
+  unchanged: number;
+}
+
+export interface DiffArtifacts {
+  jsonPath: string;
+  htmlPath: string;
+}
+
+export type UptimeCheck = 'BASELINE' | 'MONOTONIC' | 'REGRESSED' | 'REBOOT_SUSPECTED' | 'NO_REPLY';
+
+export interface SoakIteration {
+  index: number;
+  startedAt: string;
+  finishedAt: string;
+  summary: RunSummary;
+  failureRate: number;
+  uptimeMinutes: number | null;
+  uptimeCheck: UptimeCheck;
+  jsonPath: string;
+}
+
+export interface SoakReport {
+  startedAt: string;
+  finishedAt: string;
+  options: CliOptions;
+  iterations: SoakIteration[];
+  totals: RunSummary;
+  failureRate: number;
+  uptimeAnomalies: number;
+  cancelled: boolean;
+}
+
+export interface SoakResult {
+  report: SoakReport;
+  jsonPath: string;
+  csvPath: string;
+}
+
+export interface FleetDevice {
+  name: string;
+  host: string;
+  port: number;
+  // null: the run's --profile / --local-port.
+  profile: ProfileName | null;
+  location: string | null;
+  localPort: number | null;
+}
+
+export interface FleetDeviation {
+  key: string;
+  status: ResultStatus;
+  fleetStatus: ResultStatus;
+}
+
+export interface FleetDeviceResult {
+  device: FleetDevice;
+  localPort: number;
+  startedAt: string | null;
+  finishedAt: string | null;
+  summary: RunSummary | null;
+  golden: { ok: boolean; divergences: number } | null;
+  error: string | null;
+  cancelled: boolean;
+  deviations: FleetDeviation[];
+  jsonPath: string | null;
+}
+
+export interface FleetReport {
+  startedAt: string;
+  finishedAt: string;
+  inventory: string;
+  options: CliOptions;
+  devices: FleetDeviceResult[];
+  totals: RunSummary;
+  cancelled: boolean;
+}
+
+export interface FleetResult {
+  report: FleetReport;
+  jsonPath: string;
+  csvPath: string;
+}
+
+export interface CapturedFrame {
+  time: string;
+  from: string;
+  fromTarget: boolean;
+  rxHex: string;
+  replyCode: string | null;
+  category: string | null;
+  commands: string[];
+  payloadHex: string | null;
+  checksumOk: boolean | null;
+  decodeError: string | null;
+  ackStatus: number | null;
+  ackMeaning: string | null;
+}
+
+export interface UnsolicitedFrameSummary {
+  replyCode: string | null;
+  category: string | null;
+  count: number;
+}
+
+export interface ListenResult {
+  startedAt: Date;
+  finishedAt: Date;
+  capturePath: string;
+  frames: number;
+  byCode: UnsolicitedFrameSummary[];
+}
+
+export interface DecodeOptions {
+  // Hex given on the command line is one frame; a file or stdin holds one frame per line.
+  hex: string | null;
+  file: string | null;
+}
+
+export type FrameDirection = 'request' | 'reply' | 'unknown';
+
+export interface ByteAnnotation {
+  offset: number;
+  byte: string;
+  field: string;
+  note: string | null;
+}
+
+export interface FrameAnnotation {
+  hex: string;
+  ok: boolean;
+  error: string | null;
+  direction: FrameDirection;
+  code: string | null;
+  category: string | null;
+  commands: string[];
+  payloadHex: string | null;
+  checksum: number | null;
+  expectedChecksum: number | null;
+  checksumOk: boolean | null;
+  parserCode: string | null;
+  meaning: string | null;
+  parsed: Record<string, unknown> | null;
+  ackStatus: number | null;
+  ackMeaning: string | null;
+  bytes: ByteAnnotation[];
+}
+
+export interface DiscoverOptions {
+  // CIDR (192.168.0.0/24) or one address, usually a broadcast address.
+  range: string;
+  port: number;
+  localPort: number;
+  // How long to keep listening after the last probe.
+  timeoutMs: number;
+  profile: ProfileName;
+  // Inventory file to write; default data/discover-<timestamp>.json.
+  output: string | null;
+}
+
+// Shaped like a fleet inventory entry, with the probe results alongside.
+export interface DiscoveredDevice {
+  name: string;
+  target: string;
+  profile: ProfileName;
+  location: string | null;
+  latencyMs: number;
+  replyCode: string | null;
+  ackStatus: number | null;
+  status: string | null;
+  rxHex: string;
+}
+
+export interface DiscoverResult {
+  startedAt: Date;
+  finishedAt: Date;
+  probes: number;
+  devices: DiscoveredDevice[];
+  inventoryPath: string | null;
+}
+
+export interface DecodeResult {
+  frames: FrameAnnotation[];
+  invalid: number;
+}
+
+export interface TruthIndex {
+  rows: TruthCommandRow[];
+  byKey: Map<string, TruthCommandRow>;
+  bySetCode: Map<string, TruthCommandRow[]>;
+  numericSpecs: Map<string, NumericSpec>;
+}
+
 interface CommandPolicy {
   validationMode: ValidationMode;
   parserCode?: string;
@@ -175,7 +700,7 @@ interface ResolvedPolicy {
   allowedReplyCodes: string[];
 }
 
-const DEFAULT_COLUMNS = [
+export const DEFAULT_COLUMNS = [
   'time',
   'category',
   'command',
@@ -191,20 +716,36 @@ const DEFAULT_COLUMNS = [
   'note'
 ];
 
-const DISRUPTIVE_SET_CODES = new Set(['C003', 'C007', 'C009']);
-const NUMERIC_SET_CODES = ['C203', 'C21F', 'C217', 'C223', 'C227', 'C22B', 'C259', 'C262'] as const;
-const NUMERIC_VALUE_INDEX_BY_SET: Record<string, { valueIndex: number; checksumIndex: number }> = {
-  C203: { valueIndex: 38, checksumIndex: 39 },
-  C21F: { valueIndex: 38, checksumIndex: 39 },
-  C217: { valueIndex: 38, checksumIndex: 39 },
-  C223: { valueIndex: 38, checksumIndex: 39 },
-  C227: { valueIndex: 38, checksumIndex: 39 },
-  C22B: { valueIndex: 38, checksumIndex: 39 },
-  C259: { valueIndex: 38, checksumIndex: 39 },
-  C262: { valueIndex: 38, checksumIndex: 39 }
+export const DEFAULT_OPTIONS: Omit<CliOptions, 'mode' | 'singleSelector' | 'issuesFile' | 'value' | 'golden' | 'soak' | 'listen' | 'fleet' | 'deviceName' | 'serialPort'> = {
+  profile: 'exview-aio',
+  transport: 'udp',
+  targetHost: '192.168.0.20',
+  targetPort: 8600,
+  localPort: 8600,
+  baudRate: 9600,
+  parity: 'none',
+  timeoutMs: 1200,
+  rate: 1,
+  settleSetMs: 400,
+  settleModeMs: 1200,
+  includePower: false,
+  debugHex: false,
+  promptEach: false,
+  columns: DEFAULT_COLUMNS,
+  reports: [],
+  repeat: 1,
+  retry: { maxAttempts: 1, backoffMs: 200, retryOn: ['no-reply', 'busy', 'occupied'] }
 };
 
-const CLOSED_LOOP_QUERY_BY_SET: Record<string, string> = {
+// Relative to the engine root (packages/), like --issues-file.
+export const DEFAULT_GOLDEN_FILE = '../baseline/truth.json';
+
+const RUN_MODES: RunMode[] = ['single', 'suite', 'sanity', 'issues'];
+
+const DISRUPTIVE_SET_CODES = new Set(['C003', 'C007', 'C009']);
+export const NUMERIC_SET_CODES = ['C203', 'C21F', 'C217', 'C223', 'C227', 'C22B', 'C259', 'C262'] as const;
+
+export const CLOSED_LOOP_QUERY_BY_SET: Record<string, string> = {
   C203: 'C201',
   C21F: 'C21D',
   C217: 'C215',
@@ -221,7 +762,7 @@ const FORMULA_CHECKSUM_BASE: Record<string, number> = {
   C21F: 0x77
 };
 
-const ACK_STATUS_MEANING = new Map<number, string>([
+export const ACK_STATUS_MEANING = new Map<number, string>([
   [0x0001, 'Success'],
   [0x0002, 'Failure: unspecified reason'],
   [0x0003, 'Failure: serial port not found'],
@@ -287,7 +828,7 @@ const COMMAND_POLICY_BY_CODE: Record<string, CommandPolicy> = {
   }
 };
 
-const AVAILABLE_COLUMNS: Record<string, (record: CertifyRecord) => string> = {
+export const AVAILABLE_COLUMNS: Record<string, (record: CertifyRecord) => string> = {
   time: record => record.time,
   stage: record => record.stage,
   source: record => record.source,
@@ -317,10 +858,12 @@ const AVAILABLE_COLUMNS: Record<string, (record: CertifyRecord) => string> = {
   queryTransportStatus: record => record.queryTransportStatus ?? '',
   queryValue: record => (record.queryValue == null ? '' : String(record.queryValue)),
   expectedValue: record => (record.expectedValue == null ? '' : String(record.expectedValue)),
+  repeat: record => (record.repeatIndex == null ? '' : String(record.repeatIndex)),
+  retries: record => String(record.retries.length),
   notes: record => record.notes.join(' | ')
 };
 
-function printHelp(): void {
+export function printHelp(): void {
   console.log('Usage: npm run certify -- [mode] [options]');
   console.log('');
   console.log('Modes (pick one):');
@@ -329,11 +872,19 @@ function printHelp(): void {
   console.log('  --sanity-test                          Run known-good packet sanity checks');
   console.log('  --issues-file <path>                   Re-test commands listed in an issues JSON file');
   console.log('  --issues-only <path>                   Alias of --issues-file');
+  console.log('  --diff <base.json> <compare.json>      Compare two run JSON files (no device traffic)');
+  console.log('  decode [hex] [--file <path>]           Annotate hex frames byte by byte (stdin when no hex/file)');
+  console.log('  discover <cidr|address> [--port <p>]   Find displays with 0xC001 and save them as a fleet inventory');
+  console.log('                                         (--local-port, --timeout <ms>, --profile, --out <path>)');
   console.log('');
   console.log('Options:');
   console.log('  --value <0-100>              Value for numeric --single commands');
   console.log('  --target <host:port>         Default: 192.168.0.20:8600');
-  console.log('  --local-port <port>          Default: 8600');
+  console.log('  --transport <udp|tcp>        tcp for control ports tunnelled through a terminal server. Default: udp');
+  console.log('  --local-port <port>          Default: 8600 (UDP only)');
+  console.log('  --serial-port <path>         RS-232 device (e.g. /dev/ttyUSB0) for serial-only commands; skipped without it');
+  console.log(`  --baud <rate>                Serial baud rate. Default: ${DEFAULT_OPTIONS.baudRate}`);
+  console.log(`  --parity <none|even|odd>     Serial parity (8 data bits, 1 stop bit). Default: ${DEFAULT_OPTIONS.parity}`);
   console.log('  --timeout <ms>               Default: 1200');
   console.log('  --rate <commands/sec>        Default: 1');
   console.log('  --settle-set <ms>            Default: 400');
@@ -346,22 +897,33 @@ function printHelp(): void {
   );
   console.log(`  --cols <a,b,c>               Default: ${DEFAULT_COLUMNS.join(',')}`);
   console.log(`                               Available: ${Object.keys(AVAILABLE_COLUMNS).join(',')}`);
+  console.log('  --max-attempts <n>           Attempts per case for retryable outcomes. Default: 1 (no retry)');
+  console.log(`  --retry-backoff <ms>         Delay before the first retry, doubled each time. Default: ${DEFAULT_OPTIONS.retry.backoffMs}`);
+  console.log(`  --retry-on <a,b>             Retryable outcomes. Default: ${RETRY_OUTCOMES.join(',')}`);
+  console.log('  --repeat <n>                 Execute each case n times and classify STABLE_PASS/FLAKY/STABLE_FAIL');
+  console.log('  --soak <30m|2h|N>            Repeat the selected mode for a duration or N iterations');
+  console.log('  --fleet <inventory.json>     Run the selected mode on every device in the inventory');
+  console.log('  --concurrency <n>            Fleet devices certified at once, on --local-port, +1, ... Default: 1');
+  console.log('  --listen [30m]               Send nothing; capture every incoming frame to data/listen-<timestamp>.jsonl');
+  console.log(`  --golden [path]              Compare records against a baseline run. Default: ${DEFAULT_GOLDEN_FILE}`);
+  console.log(`  --latency-threshold <ms>     With --diff: report latency shifts above this. Default: ${DEFAULT_DIFF_LATENCY_THRESHOLD_MS}`);
+  console.log(`  --report <a,b>               Extra report formats: ${REPORT_FORMATS.join(',')}`);
   console.log('  --help                       Show this help');
 }
 
-function normalizeCode(input: string | null | undefined): string | null {
+export function normalizeCode(input: string | null | undefined): string | null {
   if (!input) return null;
   const normalized = input.replace(/^0x/i, '').replace(/[^0-9A-Fa-f]/g, '').toUpperCase();
   if (!normalized) return null;
   return normalized.padStart(4, '0');
 }
 
-function toCode(code: string | null | undefined): string | null {
+export function toCode(code: string | null | undefined): string | null {
   const normalized = normalizeCode(code);
   return normalized ? `0x${normalized}` : null;
 }
 
-function normalizeHex(input: string): string {
+export function normalizeHex(input: string): string {
   return input
     .replace(/0x/gi, '')
     .replace(/[^0-9A-Fa-f]/g, ' ')
@@ -370,7 +932,7 @@ function normalizeHex(input: string): string {
     .toUpperCase();
 }
 
-function parseHexBytes(input: string): number[] {
+export function parseHexBytes(input: string): number[] {
   const normalized = normalizeHex(input);
   if (!normalized) return [];
   const tokens = normalized.split(' ');
@@ -388,17 +950,13 @@ function parseHexBytes(input: string): number[] {
   return bytes;
 }
 
-function bytesToHex(bytes: number[]): string {
+export function bytesToHex(bytes: number[]): string {
   return bytes.map(byte => byte.toString(16).padStart(2, '0').toUpperCase()).join(' ');
 }
 
-function computePdfChecksum(bytes: number[]): number {
+export function computePdfChecksum(bytes: number[]): number {
   if (bytes.length < 10) return 0;
-  let sum = 0;
-  for (let index = 8; index <= bytes.length - 2; index += 1) {
-    sum = (sum + bytes[index]) & 0xff;
-  }
-  return sum;
+  return computeFrameChecksum(bytes);
 }
 
 function equalBytes(a: number[], b: number[]): boolean {
@@ -433,6 +991,61 @@ function parseTarget(value: string): { host: string; port: number } {
   return { host, port };
 }
 
+export const REPORT_FORMATS: ReportFormat[] = ['junit', 'tap'];
+export const RETRY_OUTCOMES: RetryOutcome[] = ['no-reply', 'busy', 'occupied'];
+
+function parseRetryOutcomes(input: string): RetryOutcome[] {
+  const outcomes = input
+    .split(',')
+    .map(item => item.trim().toLowerCase())
+    .filter(Boolean);
+  for (const outcome of outcomes) {
+    if (!RETRY_OUTCOMES.includes(outcome as RetryOutcome)) {
+      throw new Error(`Unknown retry outcome "${outcome}". Available: ${RETRY_OUTCOMES.join(',')}`);
+    }
+  }
+  return [...new Set(outcomes)] as RetryOutcome[];
+}
+
+function parseReportList(input: string): ReportFormat[] {
+  const formats = input
+    .split(',')
+    .map(item => item.trim().toLowerCase())
+    .filter(Boolean);
+  if (formats.length === 0) {
+    throw new Error('No formats provided to --report');
+  }
+  for (const format of formats) {
+    if (!REPORT_FORMATS.includes(format as ReportFormat)) {
+      throw new Error(`Unknown report format "${format}". Available formats: ${REPORT_FORMATS.join(',')}`);
+    }
+  }
+  return [...new Set(formats)] as ReportFormat[];
+}
+
+const DURATION_UNIT_MS: Record<string, number> = { ms: 1, s: 1000, m: 60_000, h: 3_600_000 };
+
+function parseDurationMs(input: string): number | null {
+  const match = /^(\d+(?:\.\d+)?)(ms|s|m|h)$/.exec(input.trim().toLowerCase());
+  if (!match) return null;
+  const durationMs = Number(match[1]) * DURATION_UNIT_MS[match[2]];
+  return durationMs > 0 ? durationMs : null;
+}
+
+export function parseSoakLimit(input: string): SoakLimit {
+  const trimmed = input.trim().toLowerCase();
+  if (/^\d+$/.test(trimmed)) {
+    const iterations = Number(trimmed);
+    if (iterations < 1) throw new Error(`Invalid --soak: ${input}`);
+    return { iterations, durationMs: null };
+  }
+  const durationMs = parseDurationMs(trimmed);
+  if (durationMs == null) {
+    throw new Error(`Invalid --soak: ${input} (use an iteration count or a duration such as 90s, 30m, 8h)`);
+  }
+  return { iterations: null, durationMs };
+}
+
 function parseColumnList(input: string): string[] {
   const columns = input
     .split(',')
@@ -449,23 +1062,36 @@ function parseColumnList(input: string): string[] {
   return columns;
 }
 
-function parseOptions(argv: string[]): CliOptions {
+export function parseOptions(argv: string[]): CliOptions {
   let mode: RunMode | null = null;
-  let profile: ProfileName = 'exview-aio';
+  let profile: ProfileName = DEFAULT_OPTIONS.profile;
   let singleSelector: string | undefined;
   let issuesFile: string | undefined;
   let value: number | undefined;
-  let targetHost = '192.168.0.20';
-  let targetPort = 8600;
-  let localPort = 8600;
-  let timeoutMs = 1200;
-  let rate = 1;
-  let settleSetMs = 400;
-  let settleModeMs = 1200;
-  let includePower = false;
-  let debugHex = false;
-  let promptEach = false;
-  let columns = [...DEFAULT_COLUMNS];
+  let golden: string | undefined;
+  let soak: SoakLimit | undefined;
+  let listen: ListenLimit | undefined;
+  let fleetInventory: string | undefined;
+  let fleetConcurrency: number | undefined;
+  let transport = DEFAULT_OPTIONS.transport;
+  let targetHost = DEFAULT_OPTIONS.targetHost;
+  let targetPort = DEFAULT_OPTIONS.targetPort;
+  let localPort = DEFAULT_OPTIONS.localPort;
+  let serialPort: string | undefined;
+  let baudRate = DEFAULT_OPTIONS.baudRate;
+  let parity = DEFAULT_OPTIONS.parity;
+  let serialLineSet = false;
+  let timeoutMs = DEFAULT_OPTIONS.timeoutMs;
+  let rate = DEFAULT_OPTIONS.rate;
+  let settleSetMs = DEFAULT_OPTIONS.settleSetMs;
+  let settleModeMs = DEFAULT_OPTIONS.settleModeMs;
+  let includePower = DEFAULT_OPTIONS.includePower;
+  let debugHex = DEFAULT_OPTIONS.debugHex;
+  let promptEach = DEFAULT_OPTIONS.promptEach;
+  let columns = [...DEFAULT_OPTIONS.columns];
+  let reports = [...DEFAULT_OPTIONS.reports];
+  let repeat = DEFAULT_OPTIONS.repeat;
+  const retry: RetryPolicy = { ...DEFAULT_OPTIONS.retry, retryOn: [...DEFAULT_OPTIONS.retry.retryOn] };
 
   const setMode = (next: RunMode): void => {
     if (mode && mode !== next) {
@@ -544,6 +1170,32 @@ function parseOptions(argv: string[]): CliOptions {
       continue;
     }
 
+    if (arg === '--serial-port') {
+      const next = argv[index + 1];
+      if (!next) throw new Error('--serial-port requires a device path');
+      index += 1;
+      serialPort = next;
+      continue;
+    }
+
+    if (arg === '--baud') {
+      const next = argv[index + 1];
+      if (!next) throw new Error('--baud requires a rate');
+      index += 1;
+      baudRate = parseBaudRate(next, '--baud');
+      serialLineSet = true;
+      continue;
+    }
+
+    if (arg === '--parity') {
+      const next = argv[index + 1];
+      if (!next) throw new Error('--parity requires none, even or odd');
+      index += 1;
+      parity = parseSerialParity(next, '--parity');
+      serialLineSet = true;
+      continue;
+    }
+
     if (arg === '--timeout') {
       const next = argv[index + 1];
       if (!next) throw new Error('--timeout requires milliseconds');
@@ -592,6 +1244,14 @@ function parseOptions(argv: string[]): CliOptions {
       continue;
     }
 
+    if (arg === '--transport') {
+      const next = argv[index + 1];
+      if (!next) throw new Error('--transport requires a name');
+      index += 1;
+      transport = parseTransportKind(next, '--transport');
+      continue;
+    }
+
     if (arg === '--profile') {
       const next = argv[index + 1];
       if (!next) throw new Error('--profile requires a name');
@@ -626,48 +1286,291 @@ function parseOptions(argv: string[]): CliOptions {
       continue;
     }
 
-    throw new Error(`Unknown argument: ${arg}`);
-  }
-
-  if (!mode) {
-    throw new Error('One mode is required: --single, --suite, --sanity-test, or --issues-file');
-  }
-  if (mode === 'single' && !singleSelector) {
-    throw new Error('--single requires a commandKey or setCommandCode');
-  }
-  if (mode === 'issues' && !issuesFile) {
-    throw new Error('--issues-file requires a path');
-  }
+    if (arg === '--max-attempts') {
+      const next = argv[index + 1];
+      if (!next) throw new Error('--max-attempts requires a count');
+      index += 1;
+      const numeric = Number(next);
+      if (!Number.isInteger(numeric) || numeric < 1) {
+        throw new Error(`Invalid --max-attempts: ${next}`);
+      }
+      retry.maxAttempts = numeric;
+      continue;
+    }
 
-  return {
-    mode,
-    profile,
-    singleSelector,
-    issuesFile,
-    value,
-    targetHost,
-    targetPort,
-    localPort,
-    timeoutMs,
-    rate,
-    settleSetMs,
-    settleModeMs,
-    includePower,
-    debugHex,
-    promptEach,
-    columns
-  };
-}
-function isUdpLike(bytes: number[]): boolean {
-  if (bytes.length < 10) return false;
-  for (let index = 0; index < 7; index += 1) {
-    if (bytes[index] !== 0x55) return false;
-  }
-  return true;
-}
+    if (arg === '--retry-backoff') {
+      const next = argv[index + 1];
+      if (!next) throw new Error('--retry-backoff requires milliseconds');
+      index += 1;
+      const numeric = Number(next);
+      if (!Number.isFinite(numeric) || numeric < 0) {
+        throw new Error(`Invalid --retry-backoff: ${next}`);
+      }
+      retry.backoffMs = numeric;
+      continue;
+    }
 
-function isSetCommand(row: TruthCommandRow): boolean {
-  return row.category.toLowerCase().startsWith('set ');
+    if (arg === '--retry-on') {
+      const next = argv[index + 1];
+      if (!next) throw new Error('--retry-on requires a comma-separated list');
+      index += 1;
+      retry.retryOn = parseRetryOutcomes(next);
+      continue;
+    }
+
+    if (arg === '--repeat') {
+      const next = argv[index + 1];
+      if (!next) throw new Error('--repeat requires a count');
+      index += 1;
+      const numeric = Number(next);
+      if (!Number.isInteger(numeric) || numeric < 1) {
+        throw new Error(`Invalid --repeat: ${next}`);
+      }
+      repeat = numeric;
+      continue;
+    }
+
+    if (arg === '--soak') {
+      const next = argv[index + 1];
+      if (!next) throw new Error('--soak requires a duration (30m, 2h) or an iteration count');
+      index += 1;
+      soak = parseSoakLimit(next);
+      continue;
+    }
+
+    if (arg === '--listen') {
+      const next = argv[index + 1];
+      if (next && !next.startsWith('--')) {
+        index += 1;
+        const durationMs = parseDurationMs(next);
+        if (durationMs == null) throw new Error(`Invalid --listen: ${next} (use a duration such as 90s, 30m, 8h)`);
+        listen = { durationMs };
+      } else {
+        listen = { durationMs: null };
+      }
+      continue;
+    }
+
+    if (arg === '--fleet') {
+      const next = argv[index + 1];
+      if (!next) throw new Error('--fleet requires an inventory file');
+      index += 1;
+      fleetInventory = next;
+      continue;
+    }
+
+    if (arg === '--concurrency') {
+      const next = argv[index + 1];
+      if (!next) throw new Error('--concurrency requires a count');
+      index += 1;
+      const numeric = Number(next);
+      if (!Number.isInteger(numeric) || numeric < 1) {
+        throw new Error(`Invalid --concurrency: ${next}`);
+      }
+      fleetConcurrency = numeric;
+      continue;
+    }
+
+    if (arg === '--golden') {
+      const next = argv[index + 1];
+      if (next && !next.startsWith('--')) {
+        index += 1;
+        golden = next;
+      } else {
+        golden = DEFAULT_GOLDEN_FILE;
+      }
+      continue;
+    }
+
+    if (arg === '--report') {
+      const next = argv[index + 1];
+      if (!next) throw new Error('--report requires a comma-separated list');
+      index += 1;
+      reports = parseReportList(next);
+      continue;
+    }
+
+    throw new Error(`Unknown argument: ${arg}`);
+  }
+
+  if (listen && mode) {
+    throw new Error('--listen sends nothing and cannot be combined with a run mode');
+  }
+  if (listen && transport !== 'udp') {
+    throw new Error('--listen supports --transport udp only');
+  }
+  if (fleetConcurrency != null && !fleetInventory) {
+    throw new Error('--concurrency requires --fleet');
+  }
+  if (fleetInventory && (listen || soak || serialPort)) {
+    throw new Error('--fleet cannot be combined with --listen, --soak or --serial-port');
+  }
+  if (fleetInventory && promptEach && (fleetConcurrency ?? 1) > 1) {
+    throw new Error('--prompt-each needs --concurrency 1 in fleet mode');
+  }
+  if (serialLineSet && !serialPort) {
+    throw new Error('--baud and --parity require --serial-port');
+  }
+  if (!mode && !listen) {
+    throw new Error('One mode is required: --single, --suite, --sanity-test, --issues-file, or --listen');
+  }
+  if (mode === 'single' && !singleSelector) {
+    throw new Error('--single requires a commandKey or setCommandCode');
+  }
+  if (mode === 'issues' && !issuesFile) {
+    throw new Error('--issues-file requires a path');
+  }
+
+  return {
+    // Listen mode runs no cases; the mode field is unused.
+    mode: mode ?? 'suite',
+    profile,
+    singleSelector,
+    issuesFile,
+    value,
+    golden,
+    soak,
+    listen,
+    fleet: fleetInventory ? { inventory: fleetInventory, concurrency: fleetConcurrency ?? 1 } : undefined,
+    transport,
+    targetHost,
+    targetPort,
+    localPort,
+    serialPort,
+    baudRate,
+    parity,
+    timeoutMs,
+    rate,
+    settleSetMs,
+    settleModeMs,
+    includePower,
+    debugHex,
+    promptEach,
+    columns,
+    reports,
+    repeat,
+    retry
+  };
+}
+
+function parseTransportKind(value: string, name: string): TransportKind {
+  const kind = value.trim().toLowerCase() as TransportKind;
+  if (!TRANSPORT_KINDS.includes(kind)) {
+    throw new Error(`Invalid ${name}: ${value} (supported: ${TRANSPORT_KINDS.join(', ')})`);
+  }
+  return kind;
+}
+
+// Standard POSIX rates only; stty rejects anything else.
+const SERIAL_BAUD_RATES = [1200, 2400, 4800, 9600, 19200, 38400, 57600, 115200, 230400];
+
+function parseBaudRate(value: string, name: string): number {
+  const numeric = Number(value);
+  if (!SERIAL_BAUD_RATES.includes(numeric)) {
+    throw new Error(`Invalid ${name}: ${value} (supported: ${SERIAL_BAUD_RATES.join(', ')})`);
+  }
+  return numeric;
+}
+
+function parseSerialParity(value: string, name: string): SerialParity {
+  const parity = value.trim().toLowerCase() as SerialParity;
+  if (!SERIAL_PARITIES.includes(parity)) {
+    throw new Error(`Invalid ${name}: ${value} (supported: ${SERIAL_PARITIES.join(', ')})`);
+  }
+  return parity;
+}
+
+function requireNumber(name: string, input: unknown, fallback: number, min: number, max = Number.POSITIVE_INFINITY): number {
+  if (input == null) return fallback;
+  const numeric = Number(input);
+  if (typeof input === 'boolean' || !Number.isFinite(numeric) || numeric < min || numeric > max) {
+    throw new Error(`Invalid ${name}: ${String(input)}`);
+  }
+  return numeric;
+}
+
+function requireBoolean(name: string, input: unknown, fallback: boolean): boolean {
+  if (input == null) return fallback;
+  if (typeof input !== 'boolean') throw new Error(`Invalid ${name}: ${String(input)}`);
+  return input;
+}
+
+function createRetryPolicy(input: unknown): RetryPolicy {
+  if (input == null) return { ...DEFAULT_OPTIONS.retry, retryOn: [...DEFAULT_OPTIONS.retry.retryOn] };
+  if (typeof input !== 'object' || Array.isArray(input)) throw new Error('Invalid retry: expected an object');
+  const raw = input as Record<string, unknown>;
+  return {
+    maxAttempts: Math.round(requireNumber('retry.maxAttempts', raw.maxAttempts, DEFAULT_OPTIONS.retry.maxAttempts, 1)),
+    backoffMs: requireNumber('retry.backoffMs', raw.backoffMs, DEFAULT_OPTIONS.retry.backoffMs, 0),
+    retryOn:
+      raw.retryOn == null
+        ? [...DEFAULT_OPTIONS.retry.retryOn]
+        : parseRetryOutcomes(Array.isArray(raw.retryOn) ? raw.retryOn.join(',') : String(raw.retryOn))
+  };
+}
+
+export function createOptions(input: Partial<Record<keyof CliOptions, unknown>>): CliOptions {
+  const mode = input.mode as RunMode;
+  if (!RUN_MODES.includes(mode)) {
+    throw new Error(`Invalid mode: ${String(input.mode)} (supported: ${RUN_MODES.join(', ')})`);
+  }
+  const profile = (input.profile ?? DEFAULT_OPTIONS.profile) as ProfileName;
+  if (profile !== 'exview-aio' && profile !== 'generic') {
+    throw new Error(`Invalid profile: ${String(profile)} (supported: exview-aio, generic)`);
+  }
+  const singleSelector = input.singleSelector == null ? undefined : String(input.singleSelector);
+  const issuesFile = input.issuesFile == null ? undefined : String(input.issuesFile);
+  if (mode === 'single' && !singleSelector) {
+    throw new Error('single mode requires singleSelector (commandKey or setCommandCode)');
+  }
+  if (mode === 'issues' && !issuesFile) {
+    throw new Error('issues mode requires issuesFile');
+  }
+  const value = input.value == null ? undefined : Math.round(requireNumber('value', input.value, 0, 0, 100));
+  const golden = input.golden == null || input.golden === false ? undefined : input.golden === true ? DEFAULT_GOLDEN_FILE : String(input.golden);
+  const targetHost = input.targetHost == null ? DEFAULT_OPTIONS.targetHost : String(input.targetHost).trim();
+  if (!targetHost) throw new Error('Invalid targetHost: empty');
+  const serialPort = input.serialPort == null || input.serialPort === '' ? undefined : String(input.serialPort);
+  const columns = input.columns == null ? [...DEFAULT_OPTIONS.columns] : parseColumnList(
+    Array.isArray(input.columns) ? input.columns.join(',') : String(input.columns)
+  );
+  const reports = input.reports == null ? [...DEFAULT_OPTIONS.reports] : parseReportList(
+    Array.isArray(input.reports) ? input.reports.join(',') : String(input.reports)
+  );
+
+  return {
+    mode,
+    profile,
+    singleSelector,
+    issuesFile,
+    value,
+    golden,
+    transport: input.transport == null ? DEFAULT_OPTIONS.transport : parseTransportKind(String(input.transport), 'transport'),
+    targetHost,
+    targetPort: requireNumber('targetPort', input.targetPort, DEFAULT_OPTIONS.targetPort, 1, 65535),
+    localPort: requireNumber('localPort', input.localPort, DEFAULT_OPTIONS.localPort, 1, 65535),
+    serialPort,
+    baudRate: input.baudRate == null ? DEFAULT_OPTIONS.baudRate : parseBaudRate(String(input.baudRate), 'baudRate'),
+    parity: input.parity == null ? DEFAULT_OPTIONS.parity : parseSerialParity(String(input.parity), 'parity'),
+    timeoutMs: requireNumber('timeoutMs', input.timeoutMs, DEFAULT_OPTIONS.timeoutMs, Number.MIN_VALUE),
+    rate: requireNumber('rate', input.rate, DEFAULT_OPTIONS.rate, Number.MIN_VALUE),
+    settleSetMs: requireNumber('settleSetMs', input.settleSetMs, DEFAULT_OPTIONS.settleSetMs, 0),
+    settleModeMs: requireNumber('settleModeMs', input.settleModeMs, DEFAULT_OPTIONS.settleModeMs, 0),
+    includePower: requireBoolean('includePower', input.includePower, DEFAULT_OPTIONS.includePower),
+    debugHex: requireBoolean('debugHex', input.debugHex, DEFAULT_OPTIONS.debugHex),
+    promptEach: requireBoolean('promptEach', input.promptEach, DEFAULT_OPTIONS.promptEach),
+    columns,
+    reports,
+    repeat: Math.round(requireNumber('repeat', input.repeat, DEFAULT_OPTIONS.repeat, 1)),
+    retry: createRetryPolicy(input.retry)
+  };
+}
+export function isUdpLike(bytes: number[]): boolean {
+  return bytes.length >= 10 && hasFramePreamble(bytes);
+}
+
+function isSetCommand(row: TruthCommandRow): boolean {
+  return row.category.toLowerCase().startsWith('set ');
 }
 
 function isModeChangeCommand(row: TruthCommandRow): boolean {
@@ -704,32 +1607,28 @@ function isSerialOnly(row: TruthCommandRow, txBytes: number[]): boolean {
   return false;
 }
 
-function deriveNumericSpecs(bySetCode: Map<string, TruthCommandRow[]>): Map<string, NumericSpec> {
+export function deriveNumericSpecs(bySetCode: Map<string, TruthCommandRow[]>): Map<string, NumericSpec> {
   const specs = new Map<string, NumericSpec>();
   for (const setCode of NUMERIC_SET_CODES) {
     const rows = bySetCode.get(setCode) ?? [];
     if (rows.length === 0) continue;
 
-    const manual = NUMERIC_VALUE_INDEX_BY_SET[setCode];
-    if (!manual) {
-      throw new Error(`Missing manual numeric index for 0x${setCode}`);
-    }
-
     const baseRow = rows[0];
-    const txBytes = parseHexBytes(baseRow.requestHex);
-    if (manual.valueIndex >= txBytes.length || manual.checksumIndex >= txBytes.length) {
-      throw new Error(`Manual index out of bounds for 0x${setCode}: request length=${txBytes.length}`);
+    const decoded = decodeFrame(parseHexBytes(baseRow.requestHex));
+    if (!decoded.ok) {
+      throw new Error(`Numeric base row for 0x${setCode} is not a valid frame: ${decoded.error.message}`);
     }
-    if (manual.checksumIndex !== txBytes.length - 1) {
-      throw new Error(`Manual checksum index is not last byte for 0x${setCode}`);
+    // The value is the first payload byte; the checksum follows the payload.
+    if (decoded.frame.payload.length < 1) {
+      throw new Error(`Numeric base row for 0x${setCode} has no payload byte for the value`);
     }
 
     const queryCode = CLOSED_LOOP_QUERY_BY_SET[setCode];
     const queryRow = queryCode ? (bySetCode.get(queryCode) ?? [])[0] : undefined;
     specs.set(setCode, {
       setCode,
-      valueIndex: manual.valueIndex,
-      checksumIndex: manual.checksumIndex,
+      valueIndex: FRAME_OFFSETS.payload,
+      checksumIndex: decoded.frame.length - 1,
       baseRow,
       queryCode,
       queryRow
@@ -738,60 +1637,50 @@ function deriveNumericSpecs(bySetCode: Map<string, TruthCommandRow[]>): Map<stri
   return specs;
 }
 
-function extractTailPayload(bytes: number[]): PayloadDecode | null {
-  if (bytes.length < 6) return null;
-  const candidates: Array<{ index: number; length: number; data: number[] }> = [];
-  const minIndex = Math.max(0, bytes.length - 96);
-  for (let index = bytes.length - 4; index >= minIndex; index -= 1) {
-    if (bytes[index] !== 0x00) continue;
-    if (bytes[index + 2] !== 0x00) continue;
-    const length = bytes[index + 1];
-    const start = index + 3;
-    const checksumIndex = start + length;
-    if (checksumIndex !== bytes.length - 1) continue;
-    candidates.push({ index, length, data: bytes.slice(start, checksumIndex) });
-  }
-  if (candidates.length === 0) return null;
-  const selected = candidates[0];
+export function extractTailPayload(bytes: number[]): PayloadDecode | null {
+  const decoded = decodeFrame(bytes);
+  if (!decoded.ok) return null;
   return {
-    markerIndex: selected.index,
-    dataLength: selected.length,
-    data: selected.data,
-    ambiguous: candidates.length > 1
+    markerIndex: FRAME_OFFSETS.payloadLength,
+    dataLength: decoded.frame.payload.length,
+    data: decoded.frame.payload
   };
 }
 
-function decodeReplyCode(bytes: number[]): { code: string | null; index: number | null } {
-  const maxScan = Math.min(bytes.length - 3, 40);
-  for (let index = 8; index <= maxScan; index += 1) {
-    if (bytes[index] !== 0xd0) continue;
-    const low = bytes[index + 1];
-    const high = bytes[index + 2];
-    return {
-      code: `${high.toString(16).padStart(2, '0')}${low.toString(16).padStart(2, '0')}`.toUpperCase(),
-      index
-    };
-  }
-  return { code: null, index: null };
+export function decodeReplyCode(bytes: number[]): { code: string | null; index: number | null } {
+  const decoded = decodeFrame(bytes);
+  if (!decoded.ok) return { code: null, index: null };
+  return {
+    code: decoded.frame.commandCode.toString(16).toUpperCase().padStart(4, '0'),
+    index: FRAME_OFFSETS.commandCode
+  };
 }
 
-function decodeReply(bytes: number[]): ReplyDecode {
-  const code = decodeReplyCode(bytes);
-  const payload = extractTailPayload(bytes);
+export function decodeReply(bytes: number[]): ReplyDecode {
+  const decoded = decodeFrame(bytes);
+  if (!decoded.ok) {
+    return { replyCode: null, replyCodeIndex: null, payload: null, checksumOk: null, error: decoded.error };
+  }
   return {
-    replyCode: code.code,
-    replyCodeIndex: code.index,
-    payload
+    replyCode: decoded.frame.commandCode.toString(16).toUpperCase().padStart(4, '0'),
+    replyCodeIndex: FRAME_OFFSETS.commandCode,
+    payload: {
+      markerIndex: FRAME_OFFSETS.payloadLength,
+      dataLength: decoded.frame.payload.length,
+      data: decoded.frame.payload
+    },
+    checksumOk: decoded.frame.checksumOk,
+    error: null
   };
 }
 
-function parseAckStatus(decoded: ReplyDecode | null): number | null {
+export function parseAckStatus(decoded: ReplyDecode | null): number | null {
   if (!decoded?.payload) return null;
   if (decoded.payload.data.length < 2) return null;
   return decoded.payload.data[0] | (decoded.payload.data[1] << 8);
 }
 
-function ackMeaning(statusCode: number | null): string | null {
+export function ackMeaning(statusCode: number | null): string | null {
   if (statusCode == null) return null;
   return ACK_STATUS_MEANING.get(statusCode) ?? `Status 0x${statusCode.toString(16).toUpperCase().padStart(4, '0')}`;
 }
@@ -803,6 +1692,35 @@ function sanitizeForCsv(value: string): string {
   return value;
 }
 
+function logLine(hooks: RunHooks, line: string): void {
+  (hooks.log ?? console.log)(line);
+}
+
+function warnLine(hooks: RunHooks, line: string): void {
+  (hooks.warn ?? console.warn)(line);
+}
+
+function emitEvent(hooks: RunHooks, event: RunEvent): void {
+  hooks.onEvent?.(event);
+}
+
+export function createRunEventBus(): RunEventBus {
+  const listeners = new Set<RunEventListener>();
+  return {
+    subscribe(listener: RunEventListener): () => void {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    emit(event: RunEvent): void {
+      for (const listener of [...listeners]) {
+        listener(event);
+      }
+    }
+  };
+}
+
 function waitForEnter(prompt: string): Promise<void> {
   if (!process.stdin.isTTY) {
     console.log(`${prompt} (stdin not TTY, auto-continue)`);
@@ -817,82 +1735,115 @@ function waitForEnter(prompt: string): Promise<void> {
   });
 }
 
-async function bindSocket(socket: dgram.Socket, localPort: number): Promise<dgram.AddressInfo> {
-  await new Promise<void>((resolve, reject) => {
-    const onError = (error: Error) => {
-      socket.removeListener('listening', onListening);
-      reject(error);
-    };
-    const onListening = () => {
-      socket.removeListener('error', onError);
-      resolve();
-    };
-    socket.once('error', onError);
-    socket.once('listening', onListening);
-    socket.bind(localPort);
-  });
-  const address = socket.address();
-  if (typeof address === 'string') {
-    throw new Error('Unexpected socket.address() string');
-  }
-  return address;
+export function createRunTransport(options: CliOptions): Transport {
+  return createTransport(options.transport, { host: options.targetHost, port: options.targetPort, localPort: options.localPort });
+}
+
+export function createRunSerialTransport(options: CliOptions): Transport | null {
+  if (!options.serialPort) return null;
+  return createSerialTransport({ path: options.serialPort, baudRate: options.baudRate, parity: options.parity });
+}
+
+const OWED_REPLY_LIMIT = 32;
+
+// Commands on a transport that timed out and are still owed a reply, so a frame with their reply code can be told
+// apart as late. A late reply settles the debt; answered commands are never listed.
+const owedReplies = new WeakMap<Transport, ReplyExpectation[]>();
+
+function classifyStaleFrame(owed: ReplyExpectation[], frame: ReceivedFrame): StaleFrame {
+  const replyCode = decodeReplyCode(frame.bytes).code;
+  const index = replyCode ? owed.findIndex(item => item.replyCodes?.includes(replyCode)) : -1;
+  const earlier = index === -1 ? undefined : owed.splice(index, 1)[0];
+  return {
+    kind: earlier ? 'LATE' : 'UNSOLICITED',
+    rxHex: bytesToHex(frame.bytes),
+    replyCode: toCode(replyCode),
+    receivedAt: new Date(frame.receivedAtMs).toISOString(),
+    lateFor: earlier?.commandKey ?? null
+  };
+}
+
+function answersExpectation(frame: ReceivedFrame, expected: ReplyExpectation | null): boolean {
+  if (!expected?.replyCodes) return true;
+  const replyCode = decodeReplyCode(frame.bytes).code;
+  return replyCode != null && expected.replyCodes.includes(replyCode);
 }
 
-async function sendAndAwaitReply(
-  socket: dgram.Socket,
+export async function sendAndAwaitReply(
+  transport: Transport,
   txBytes: number[],
-  targetHost: string,
-  targetPort: number,
-  timeoutMs: number
+  timeoutMs: number,
+  expected: ReplyExpectation | null = null
 ): Promise<SendResult> {
-  const requireIp = isIP(targetHost) !== 0;
-
-  return new Promise((resolve, reject) => {
-    const startedAt = Date.now();
-    let settled = false;
-
-    const cleanup = (result: SendResult): void => {
-      if (settled) return;
-      settled = true;
-      clearTimeout(timer);
-      socket.off('message', onMessage);
-      resolve(result);
-    };
+  const owed = owedReplies.get(transport) ?? [];
+  owedReplies.set(transport, owed);
 
-    const fail = (error: Error): void => {
-      if (settled) return;
-      settled = true;
-      clearTimeout(timer);
-      socket.off('message', onMessage);
-      reject(error);
-    };
+  // Anything queued before this send cannot be its reply.
+  const staleFrames: StaleFrame[] = [];
+  for (let frame = await transport.receive(0); frame; frame = await transport.receive(0)) {
+    staleFrames.push(classifyStaleFrame(owed, frame));
+  }
 
-    const onMessage = (buffer: Buffer, rinfo: dgram.RemoteInfo): void => {
-      if (requireIp && rinfo.address !== targetHost) return;
-      if (rinfo.port !== targetPort) return;
-      cleanup({
-        rxBytes: [...buffer.values()],
-        latencyMs: Date.now() - startedAt
-      });
-    };
+  const startedAt = Date.now();
+  const deadline = startedAt + timeoutMs;
+  let reply: ReceivedFrame | null = null;
+  await transport.send(txBytes);
+  while (!reply) {
+    const frame = await transport.receive(deadline - Date.now());
+    if (!frame) break;
+    if (answersExpectation(frame, expected)) {
+      reply = frame;
+      break;
+    }
+    const stale = classifyStaleFrame(owed, frame);
+    // A frame with an unexpected code that no timed-out command is waiting for is most likely this command's
+    // reply with the wrong code; take it so reply-code validation can report it.
+    if (stale.kind === 'UNSOLICITED') {
+      reply = frame;
+    } else {
+      staleFrames.push(stale);
+    }
+  }
 
-    const timer = setTimeout(
-      () =>
-        cleanup({
-          rxBytes: null,
-          latencyMs: null
-        }),
-      timeoutMs
-    );
+  if (!reply && expected) {
+    owed.unshift(expected);
+    owed.length = Math.min(owed.length, OWED_REPLY_LIMIT);
+  }
+  return {
+    rxBytes: reply?.bytes ?? null,
+    latencyMs: reply ? reply.receivedAtMs - startedAt : null,
+    staleFrames
+  };
+}
 
-    socket.on('message', onMessage);
-    socket.send(Buffer.from(txBytes), targetPort, targetHost, error => {
-      if (error) fail(error);
-    });
+async function sendFrame(
+  transport: Transport,
+  commandKey: string,
+  role: FrameRole,
+  txBytes: number[],
+  replyCodes: string[] | null,
+  options: CliOptions,
+  hooks: RunHooks
+): Promise<SendResult> {
+  emitEvent(hooks, { type: 'frame-sent', commandKey, role, txHex: bytesToHex(txBytes) });
+  const result = await sendAndAwaitReply(transport, txBytes, options.timeoutMs, {
+    commandKey,
+    replyCodes
   });
+  for (const frame of result.staleFrames) {
+    warnLine(hooks, `WARNING ${commandKey}: ${describeStaleFrame(frame)}`);
+  }
+  emitEvent(hooks, {
+    type: 'frame-received',
+    commandKey,
+    role,
+    rxHex: result.rxBytes ? bytesToHex(result.rxBytes) : null,
+    latencyMs: result.latencyMs
+  });
+  return result;
 }
 
-function valueLabel(setCode: string | null): string {
+export function valueLabel(setCode: string | null): string {
   const normalized = normalizeCode(setCode);
   if (!normalized) return 'value';
   if (normalized === 'C203') return 'volume';
@@ -903,6 +1854,7 @@ function valueLabel(setCode: string | null): string {
   if (normalized === 'C22B') return 'blueGain';
   if (normalized === 'C259') return 'saturation';
   if (normalized === 'C262') return 'hue';
+  if (normalized === 'C20F') return 'displayMode';
   return 'value';
 }
 
@@ -910,16 +1862,17 @@ function toFileStamp(value: Date): string {
   return value.toISOString().replace(/[:.]/g, '-');
 }
 
-function buildGeneratedNumericCase(spec: NumericSpec, value: number, source: 'generated' | 'sanity'): CertifyCase {
-  const txBytes = parseHexBytes(spec.baseRow.requestHex);
-  txBytes[spec.valueIndex] = value & 0xff;
+function toFileSafeName(value: string): string {
+  return value.replace(/[^A-Za-z0-9_-]+/g, '-');
+}
 
-  const formulaBase = FORMULA_CHECKSUM_BASE[spec.setCode];
-  if (formulaBase != null) {
-    txBytes[spec.checksumIndex] = (formulaBase + value) & 0xff;
-  } else {
-    txBytes[spec.checksumIndex] = computePdfChecksum(txBytes);
+export function buildGeneratedNumericCase(spec: NumericSpec, value: number, source: 'generated' | 'sanity'): CertifyCase {
+  const decoded = decodeFrame(parseHexBytes(spec.baseRow.requestHex));
+  if (!decoded.ok) {
+    throw new Error(`Numeric base row for 0x${spec.setCode} is not a valid frame: ${decoded.error.message}`);
   }
+  // FORMULA_CHECKSUM_BASE is only a cross-check here (verifyGeneratedChecksum); the codec owns the checksum.
+  const txBytes = encodeFrame({ ...decoded.frame, payload: [value & 0xff, ...decoded.frame.payload.slice(1)] });
 
   const expectedReplyBytes = spec.baseRow.replyHex ? parseHexBytes(spec.baseRow.replyHex) : null;
   return {
@@ -935,6 +1888,7 @@ function buildGeneratedNumericCase(spec: NumericSpec, value: number, source: 'ge
     expectedReplyBytes,
     generatedValue: value,
     serialOnly: false,
+    noReplyExpected: false,
     isSetCommand: true,
     isModeChangeCommand: isModeChangeCommand(spec.baseRow),
     isPowerCommand: false,
@@ -944,12 +1898,13 @@ function buildGeneratedNumericCase(spec: NumericSpec, value: number, source: 'ge
   };
 }
 
-function buildCaseFromTruthRow(row: TruthCommandRow, source: 'truth' | 'sanity'): CertifyCase {
+export function buildCaseFromTruthRow(row: TruthCommandRow, source: 'truth' | 'sanity'): CertifyCase {
   const txBytes = parseHexBytes(row.requestHex);
   const setCode = normalizeCode(row.setCommandCode);
   let expectedQueryValue: number | undefined;
-  if (setCode === 'C20F' && txBytes.length > 38) {
-    expectedQueryValue = txBytes[38];
+  if (setCode === 'C20F') {
+    const decoded = decodeFrame(txBytes);
+    if (decoded.ok && decoded.frame.payload.length > 0) expectedQueryValue = decoded.frame.payload[0];
   }
 
   return {
@@ -965,6 +1920,7 @@ function buildCaseFromTruthRow(row: TruthCommandRow, source: 'truth' | 'sanity')
     expectedReplyBytes: row.replyHex ? parseHexBytes(row.replyHex) : null,
     generatedValue: null,
     serialOnly: isSerialOnly(row, txBytes),
+    noReplyExpected: (row.transport ?? '').toUpperCase() === 'NO_REPLY',
     isSetCommand: isSetCommand(row),
     isModeChangeCommand: isModeChangeCommand(row),
     isPowerCommand: isPowerCommand(row),
@@ -973,7 +1929,7 @@ function buildCaseFromTruthRow(row: TruthCommandRow, source: 'truth' | 'sanity')
   };
 }
 
-function buildSuiteCases(rows: TruthCommandRow[], numericSpecs: Map<string, NumericSpec>): CertifyCase[] {
+export function buildSuiteCases(rows: TruthCommandRow[], numericSpecs: Map<string, NumericSpec>): CertifyCase[] {
   const cases: CertifyCase[] = [];
   const generatedSetCodes = new Set<string>();
 
@@ -996,7 +1952,7 @@ function buildSuiteCases(rows: TruthCommandRow[], numericSpecs: Map<string, Nume
   return [...normalCases, ...powerCases];
 }
 
-function buildSingleCase(
+export function buildSingleCase(
   byKey: Map<string, TruthCommandRow>,
   bySetCode: Map<string, TruthCommandRow[]>,
   numericSpecs: Map<string, NumericSpec>,
@@ -1035,7 +1991,7 @@ function buildSingleCase(
   return buildCaseFromTruthRow(matching[0], 'truth');
 }
 
-function buildSanityCases(bySetCode: Map<string, TruthCommandRow[]>, numericSpecs: Map<string, NumericSpec>): CertifyCase[] {
+export function buildSanityCases(bySetCode: Map<string, TruthCommandRow[]>, numericSpecs: Map<string, NumericSpec>): CertifyCase[] {
   const sanityCases: CertifyCase[] = [];
 
   const c213Rows = bySetCode.get('C213') ?? [];
@@ -1096,6 +2052,9 @@ function buildSkippedRecord(caseItem: CertifyCase, reason: string): CertifyRecor
     queryTransportStatus: null,
     queryValue: null,
     expectedValue: caseItem.expectedQueryValue ?? null,
+    repeatIndex: null,
+    retries: [],
+    staleFrames: [],
     notes: [reason]
   };
 }
@@ -1241,7 +2200,7 @@ function parseHdmiPresenceFromFrame(bytes: number[]): ParseResult {
   };
 }
 
-function parseSemanticByCode(parserCode: string, data: number[]): ParseResult {
+export function parseSemanticByCode(parserCode: string, data: number[]): ParseResult {
   switch (parserCode) {
     case 'C201':
       if (data.length !== 1) return { ok: false, parsed: { raw: data }, meaning: `volume payload length=${data.length}, expected=1`, value: null };
@@ -1442,7 +2401,7 @@ function resolvePolicy(caseItem: CertifyCase, _profile: ProfileName): ResolvedPo
 
   let validationMode: ValidationMode = base?.validationMode ?? 'STRICT_EXACT';
   let parserCode: string | null = base?.parserCode ?? setCode ?? null;
-  const note: string | null = base?.note ?? null;
+  let note: string | null = base?.note ?? null;
   const acceptAnyReplyCode = base?.acceptAnyReplyCode ?? false;
   const allowNoReplyQuirk = base?.allowNoReplyQuirk ?? false;
   const allowedReplyCodes = [...(base?.allowedReplyCodes ?? [])];
@@ -1452,6 +2411,12 @@ function resolvePolicy(caseItem: CertifyCase, _profile: ProfileName): ResolvedPo
     validationMode = 'PARSED_RANGE';
     parserCode = 'C243';
   }
+  // Serial-only rows like 0xC009 power-on have no eXview reply to compare. Network rows captured without a
+  // reply (0xC211) keep their own handling.
+  if (caseItem.serialOnly && caseItem.noReplyExpected) {
+    validationMode = 'EXPECTED_NO_REPLY';
+    note = 'Serial-only command captured without a reply';
+  }
 
   return {
     validationMode,
@@ -1463,6 +2428,25 @@ function resolvePolicy(caseItem: CertifyCase, _profile: ProfileName): ResolvedPo
   };
 }
 
+function expectedReplyCodes(caseItem: CertifyCase, policy: ResolvedPolicy): string[] | null {
+  if (policy.acceptAnyReplyCode) return null;
+  const codes = [caseItem.replyCode, ...policy.allowedReplyCodes]
+    .map(item => normalizeCode(item))
+    .filter((item): item is string => item != null);
+  return codes.length === 0 ? null : [...new Set(codes)];
+}
+
+function describeStaleFrame(frame: StaleFrame): string {
+  const code = frame.replyCode ?? 'unknown code';
+  return frame.kind === 'LATE'
+    ? `Late reply to ${frame.lateFor} (${code}) discarded`
+    : `Unsolicited frame (${code}) discarded`;
+}
+
+function staleFrameNotes(frames: StaleFrame[]): string[] {
+  return frames.map(describeStaleFrame);
+}
+
 function isReplyCodeAccepted(expected: string | null, actualNormalized: string | null, allowed: string[]): boolean {
   const accepted = new Set<string>();
   const normalizedExpected = normalizeCode(expected);
@@ -1481,14 +2465,9 @@ function inferExpectedQueryValue(caseItem: CertifyCase): number | null {
   if (caseItem.generatedValue != null) return caseItem.generatedValue;
   const setCode = normalizeCode(caseItem.setCode);
   if (!setCode) return null;
-  if (NUMERIC_VALUE_INDEX_BY_SET[setCode]) {
-    const index = NUMERIC_VALUE_INDEX_BY_SET[setCode].valueIndex;
-    if (index < caseItem.txBytes.length) return caseItem.txBytes[index];
-  }
-  if (setCode === 'C20F' && caseItem.txBytes.length > 38) {
-    return caseItem.txBytes[38];
-  }
-  return null;
+  if (!(NUMERIC_SET_CODES as readonly string[]).includes(setCode) && setCode !== 'C20F') return null;
+  const decoded = decodeFrame(caseItem.txBytes);
+  return decoded.ok && decoded.frame.payload.length > 0 ? decoded.frame.payload[0] : null;
 }
 
 function makeBaseRecord(caseItem: CertifyCase, policy: ResolvedPolicy, sendResult: SendResult): CertifyRecord {
@@ -1522,7 +2501,10 @@ function makeBaseRecord(caseItem: CertifyCase, policy: ResolvedPolicy, sendResul
     queryTransportStatus: null,
     queryValue: null,
     expectedValue: inferExpectedQueryValue(caseItem),
-    notes: []
+    repeatIndex: null,
+    retries: [],
+    staleFrames: [...sendResult.staleFrames],
+    notes: staleFrameNotes(sendResult.staleFrames)
   };
 }
 
@@ -1538,22 +2520,23 @@ function setOutcome(record: CertifyRecord, status: ResultStatus, matchType: stri
   return record;
 }
 
-async function executeCase(
-  socket: dgram.Socket,
+async function executePrimary(
+  transport: Transport,
   caseItem: CertifyCase,
   options: CliOptions,
-  bySetCode: Map<string, TruthCommandRow[]>
+  hooks: RunHooks
 ): Promise<CertifyRecord> {
   const txHex = bytesToHex(caseItem.txBytes);
   if (options.debugHex) {
-    console.log(`[DEBUG TX] ${caseItem.commandKey} ${txHex}`);
+    logLine(hooks, `[DEBUG TX] ${caseItem.commandKey} ${txHex}`);
   }
 
   const checksumCheck = verifyGeneratedChecksum(caseItem);
   if (caseItem.generatedValue != null && checksumCheck.computedPdf != null && checksumCheck.actual != null) {
     const formulaText =
       checksumCheck.formula == null ? '' : ` formula=0x${checksumCheck.formula.toString(16).toUpperCase().padStart(2, '0')}`;
-    console.log(
+    logLine(
+      hooks,
       `[SELF-CHECK] ${caseItem.commandKey} computed=0x${checksumCheck.computedPdf
         .toString(16)
         .toUpperCase()
@@ -1561,17 +2544,27 @@ async function executeCase(
     );
   }
   for (const warning of checksumCheck.warnings) {
-    console.warn(`WARNING ${caseItem.commandKey}: ${warning}`);
+    warnLine(hooks, `WARNING ${caseItem.commandKey}: ${warning}`);
   }
 
   const policy = resolvePolicy(caseItem, options.profile);
-  const primary = await sendAndAwaitReply(socket, caseItem.txBytes, options.targetHost, options.targetPort, options.timeoutMs);
+  const primary = await sendFrame(
+    transport,
+    caseItem.commandKey,
+    'primary',
+    caseItem.txBytes,
+    expectedReplyCodes(caseItem, policy),
+    options,
+    hooks
+  );
   const decoded = primary.rxBytes ? decodeReply(primary.rxBytes) : null;
   const record = makeBaseRecord(caseItem, policy, primary);
   record.notes.push(...checksumCheck.warnings);
 
-  if (decoded?.payload?.ambiguous && policy.parserCode !== 'C25B') {
-    record.notes.push('Ambiguous payload marker in reply; used last marker');
+  if (decoded?.error) {
+    record.notes.push(`Reply frame not decoded: ${decoded.error.message}`);
+  } else if (decoded?.checksumOk === false) {
+    record.notes.push('Reply checksum does not match frame contents');
   }
   if (options.debugHex && primary.rxBytes) {
     if (policy.parserCode === 'C25B') {
@@ -1579,11 +2572,11 @@ async function executeCase(
       const codeText = decoded?.replyCode ? `0x${decoded.replyCode}` : 'unknown';
       const payloadHex =
         hdmiDebug.parsed && typeof hdmiDebug.parsed.payloadHex === 'string' ? hdmiDebug.parsed.payloadHex : 'n/a';
-      console.log(`[DEBUG RX] ${caseItem.commandKey} replyCode=${codeText} hdmiPayload=${payloadHex} ${hdmiDebug.meaning}`);
+      logLine(hooks, `[DEBUG RX] ${caseItem.commandKey} replyCode=${codeText} hdmiPayload=${payloadHex} ${hdmiDebug.meaning}`);
     } else if (decoded) {
       const codeText = decoded.replyCode ? `0x${decoded.replyCode}` : 'unknown';
       const payloadText = decoded.payload ? `len=${decoded.payload.dataLength} marker=${decoded.payload.markerIndex}` : 'none';
-      console.log(`[DEBUG RX] ${caseItem.commandKey} replyCode=${codeText} payload=${payloadText}`);
+      logLine(hooks, `[DEBUG RX] ${caseItem.commandKey} replyCode=${codeText} payload=${payloadText}`);
     }
   }
   if (policy.acceptAnyReplyCode && decoded?.replyCode) {
@@ -1671,76 +2664,391 @@ async function executeCase(
   return setOutcome(record, 'FAIL', 'SEMANTIC_PARSE_FAIL', parsed.meaning, parsed.note);
 }
 
-function makeProgressLine(index: number, total: number, record: CertifyRecord): string {
-  const latency = record.latencyMs == null ? '' : ` latency=${record.latencyMs}ms`;
-  const valuePart = record.value == null ? '' : ` ${valueLabel(record.setCode)}=${record.value}`;
-  const meaningPart = record.meaning ? ` meaning="${record.meaning}"` : '';
-  return `[${index}/${total}] ${record.command}${valuePart} ${record.status}${latency} match=${record.matchType}${meaningPart}`;
+function resolveClosedLoopQueryRow(
+  caseItem: CertifyCase,
+  bySetCode: Map<string, TruthCommandRow[]>
+): TruthCommandRow | undefined {
+  if (caseItem.closedLoopQueryRow) return caseItem.closedLoopQueryRow;
+  const setCode = normalizeCode(caseItem.setCode);
+  const queryCode = setCode ? CLOSED_LOOP_QUERY_BY_SET[setCode] : undefined;
+  if (!queryCode) return undefined;
+  return (bySetCode.get(queryCode) ?? [])[0];
 }
 
-function buildSummary(records: CertifyRecord[]): {
-  pass: number;
-  fail: number;
-  noReply: number;
-  skipped: number;
-} {
-  return {
-    pass: records.filter(record => record.status === 'PASS').length,
-    fail: records.filter(record => record.status === 'FAIL').length,
-    noReply: records.filter(record => record.status === 'NO_REPLY').length,
-    skipped: records.filter(record => record.status === 'SKIPPED').length
-  };
-}
-function writeArtifacts(
-  rootDir: string,
+async function verifyClosedLoop(
+  transport: Transport,
+  caseItem: CertifyCase,
+  queryRow: TruthCommandRow,
   options: CliOptions,
-  startedAt: Date,
-  finishedAt: Date,
-  records: CertifyRecord[]
-): {
-  jsonPath: string;
-  csvPath: string;
-  htmlPath: string;
-  issuesJsonPath: string;
-  issuesCsvPath: string;
-} {
-  const stamp = toFileStamp(startedAt);
-  const dataDir = path.resolve(rootDir, 'data');
-  fs.mkdirSync(dataDir, { recursive: true });
+  record: CertifyRecord,
+  hooks: RunHooks
+): Promise<CertifyRecord> {
+  const expected = record.expectedValue;
+  if (expected == null) return record;
 
-  const jsonPath = path.resolve(dataDir, `certify-${stamp}.json`);
-  const csvPath = path.resolve(dataDir, `certify-${stamp}.csv`);
-  const htmlPath = path.resolve(dataDir, `certify-${stamp}.html`);
-  const issuesJsonPath = path.resolve(dataDir, `certify-${stamp}.issues.json`);
-  const issuesCsvPath = path.resolve(dataDir, `certify-${stamp}.issues.csv`);
+  const queryCase = buildCaseFromTruthRow(queryRow, 'truth');
+  const policy = resolvePolicy(queryCase, options.profile);
+  const label = valueLabel(caseItem.setCode);
+  const queryCode = queryCase.setCode ?? queryCase.commandKey;
 
-  const summary = buildSummary(records);
-  const jsonPayload = {
-    startedAt: startedAt.toISOString(),
-    finishedAt: finishedAt.toISOString(),
+  if (options.settleSetMs > 0) {
+    await sleep(options.settleSetMs);
+  }
+  if (options.debugHex) {
+    logLine(hooks, `[DEBUG TX] ${queryCase.commandKey} ${bytesToHex(queryCase.txBytes)} (closed-loop query)`);
+  }
+
+  const query = await sendFrame(
+    transport,
+    caseItem.commandKey,
+    'query',
+    queryCase.txBytes,
+    expectedReplyCodes(queryCase, policy),
     options,
-    summary,
-    records
-  };
-  fs.writeFileSync(jsonPath, JSON.stringify(jsonPayload, null, 2), 'utf8');
+    hooks
+  );
+  record.staleFrames.push(...query.staleFrames);
+  record.notes.push(...staleFrameNotes(query.staleFrames));
+  record.queryTxHex = bytesToHex(queryCase.txBytes);
+  record.queryRxHex = query.rxBytes ? bytesToHex(query.rxBytes) : null;
+  record.queryLatencyMs = query.latencyMs;
+  record.queryTransportStatus = query.rxBytes ? 'REPLY' : 'NO_REPLY';
+
+  if (!query.rxBytes) {
+    return setOutcome(record, 'NO_REPLY', 'CLOSED_LOOP_NO_REPLY', `No reply to closed-loop query ${queryCode}`);
+  }
 
-  const header = options.columns;
-  const csvLines: string[] = [header.join(',')];
-  for (const record of records) {
-    const row = header.map(col => sanitizeForCsv(AVAILABLE_COLUMNS[col](record)));
-    csvLines.push(row.join(','));
+  const decoded = decodeReply(query.rxBytes);
+  if (!isReplyCodeAccepted(queryCase.replyCode, decoded.replyCode, policy.allowedReplyCodes)) {
+    const actualCode = decoded.replyCode ? `0x${decoded.replyCode}` : 'unknown';
+    return setOutcome(
+      record,
+      'FAIL',
+      'CLOSED_LOOP_REPLY_CODE_MISMATCH',
+      `Closed-loop query ${queryCode} replyCode=${actualCode}, expected=${queryCase.replyCode ?? 'unknown'}`
+    );
+  }
+  if (!policy.parserCode || !decoded.payload) {
+    return setOutcome(record, 'FAIL', 'CLOSED_LOOP_PARSE_FAIL', `Could not read back ${label} from closed-loop query ${queryCode}`);
   }
-  fs.writeFileSync(csvPath, csvLines.join('\n'), 'utf8');
 
-  const issues = records.filter(record => ISSUE_STATUSES.has(record.status));
-  const issuesPayload = {
-    generatedFrom: path.basename(jsonPath),
-    summary: {
-      total: issues.length,
+  const parsed = parseSemanticByCode(policy.parserCode, decoded.payload.data);
+  record.queryValue = parsed.value;
+  if (parsed.value == null) {
+    return setOutcome(record, 'FAIL', 'CLOSED_LOOP_PARSE_FAIL', parsed.meaning, parsed.note);
+  }
+  if (parsed.value !== expected) {
+    return setOutcome(
+      record,
+      'FAIL',
+      'CLOSED_LOOP_MISMATCH',
+      `${label} readback=${parsed.value}, expected=${expected}`,
+      `Closed-loop query ${queryCode} reported ${parsed.meaning}`
+    );
+  }
+
+  record.notes.push(`Closed-loop query ${queryCode} confirmed ${label}=${parsed.value}`);
+  return record;
+}
+
+async function executeAttempt(
+  transport: Transport,
+  caseItem: CertifyCase,
+  options: CliOptions,
+  bySetCode: Map<string, TruthCommandRow[]>,
+  hooks: RunHooks
+): Promise<CertifyRecord> {
+  const record = await executePrimary(transport, caseItem, options, hooks);
+  if (record.status !== 'PASS') return record;
+
+  const queryRow = resolveClosedLoopQueryRow(caseItem, bySetCode);
+  if (!queryRow) return record;
+  return verifyClosedLoop(transport, caseItem, queryRow, options, record, hooks);
+}
+
+// Known quirks (NO_REPLY_QUIRK, expected no-reply) are final outcomes, not transient ones.
+function classifyRetryOutcome(record: CertifyRecord): RetryOutcome | null {
+  if (record.matchType === 'NO_REPLY' || record.matchType === 'CLOSED_LOOP_NO_REPLY') return 'no-reply';
+  if (record.status !== 'FAIL') return null;
+  // The closed-loop query can be refused as busy/occupied too, after the set itself was accepted.
+  for (const rxHex of [record.rxHex, record.queryRxHex]) {
+    if (!rxHex) continue;
+    const ack = parseAckStatus(decodeReply(parseHexBytes(rxHex)));
+    if (ack === 0x8001) return 'busy';
+    if (ack === 0x8002) return 'occupied';
+  }
+  return null;
+}
+
+export async function executeCase(
+  transport: Transport,
+  caseItem: CertifyCase,
+  options: CliOptions,
+  bySetCode: Map<string, TruthCommandRow[]>,
+  hooks: RunHooks = {}
+): Promise<CertifyRecord> {
+  const retries: RetryAttempt[] = [];
+  const staleFrames: StaleFrame[] = [];
+  for (let attempt = 1; ; attempt += 1) {
+    const record = await executeAttempt(transport, caseItem, options, bySetCode, hooks);
+    const outcome = classifyRetryOutcome(record);
+    if (
+      !outcome ||
+      !options.retry.retryOn.includes(outcome) ||
+      attempt >= options.retry.maxAttempts ||
+      hooks.signal?.aborted
+    ) {
+      record.retries = retries;
+      record.staleFrames.unshift(...staleFrames);
+      if (retries.length > 0) {
+        const note = `${record.status} after ${retries.length} retr${retries.length === 1 ? 'y' : 'ies'} (${retries.map(item => item.outcome).join(', ')})`;
+        record.note = record.note ? `${record.note} | ${note}` : note;
+        record.notes.push(note);
+      }
+      return record;
+    }
+
+    retries.push({
+      attempt,
+      outcome,
+      txHex: record.txHex,
+      rxHex: record.rxHex,
+      latencyMs: record.latencyMs,
+      queryTxHex: record.queryTxHex,
+      queryRxHex: record.queryRxHex,
+      queryLatencyMs: record.queryLatencyMs,
+      status: record.status,
+      matchType: record.matchType
+    });
+    staleFrames.push(...record.staleFrames);
+    const delayMs = options.retry.backoffMs * 2 ** (attempt - 1);
+    logLine(hooks, `[RETRY] ${caseItem.commandKey} attempt ${attempt} ${outcome}; retrying in ${delayMs}ms`);
+    if (delayMs > 0) {
+      await sleep(delayMs);
+    }
+  }
+}
+
+export function makeProgressLine(index: number, total: number, record: CertifyRecord): string {
+  const latency = record.latencyMs == null ? '' : ` latency=${record.latencyMs}ms`;
+  const valuePart = record.value == null ? '' : ` ${valueLabel(record.setCode)}=${record.value}`;
+  const meaningPart = record.meaning ? ` meaning="${record.meaning}"` : '';
+  return `[${index}/${total}] ${record.command}${valuePart} ${record.status}${latency} match=${record.matchType}${meaningPart}`;
+}
+
+export function buildFlakinessReport(records: CertifyRecord[], repeat: number): FlakinessReport {
+  const byKey = new Map<string, CertifyRecord[]>();
+  for (const record of records) {
+    // Skips say nothing about stability, including ones decided at run time (0xC211 in split-screen mode).
+    if (record.status === 'SKIPPED') continue;
+    const key = recordMatchKey(record);
+    const existing = byKey.get(key) ?? [];
+    existing.push(record);
+    byKey.set(key, existing);
+  }
+
+  const entries: FlakinessEntry[] = [...byKey.entries()].map(([key, attempts]) => {
+    const passes = attempts.filter(item => item.status === 'PASS').length;
+    const classification: FlakinessClass = passes === attempts.length ? 'STABLE_PASS' : passes === 0 ? 'STABLE_FAIL' : 'FLAKY';
+    return {
+      key,
+      commandKey: attempts[0].commandKey,
+      category: attempts[0].category,
+      variant: attempts[0].variant,
+      attempts: attempts.length,
+      passes,
+      passRatio: passes / attempts.length,
+      classification
+    };
+  });
+
+  return {
+    repeat,
+    stablePass: entries.filter(entry => entry.classification === 'STABLE_PASS').length,
+    flaky: entries.filter(entry => entry.classification === 'FLAKY').length,
+    stableFail: entries.filter(entry => entry.classification === 'STABLE_FAIL').length,
+    entries
+  };
+}
+
+export function buildSummary(records: CertifyRecord[]): RunSummary {
+  return {
+    pass: records.filter(record => record.status === 'PASS').length,
+    fail: records.filter(record => record.status === 'FAIL').length,
+    noReply: records.filter(record => record.status === 'NO_REPLY').length,
+    skipped: records.filter(record => record.status === 'SKIPPED').length,
+    lateReplies: countStaleFrames(records, 'LATE'),
+    unsolicitedFrames: countStaleFrames(records, 'UNSOLICITED')
+  };
+}
+
+function countStaleFrames(records: CertifyRecord[], kind: StaleFrameKind): number {
+  // Older artifacts predate stale-frame tracking.
+  return records.reduce((total, record) => total + (record.staleFrames ?? []).filter(frame => frame.kind === kind).length, 0);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+function recordTestName(record: CertifyRecord): string {
+  return `${record.commandKey}/${record.variant}`;
+}
+
+function recordFailureDetails(record: CertifyRecord): string[] {
+  return [
+    `status: ${record.status}`,
+    `match: ${record.matchType}`,
+    `validationMode: ${record.validationMode}`,
+    `meaning: ${record.meaning ?? ''}`,
+    `note: ${record.note ?? ''}`,
+    `tx: ${record.txHex ?? ''}`,
+    `rx: ${record.rxHex ?? ''}`,
+    `expected: ${record.expectedHex ?? ''}`
+  ];
+}
+
+export function buildJUnitReport(records: CertifyRecord[], startedAt: Date, finishedAt: Date): string {
+  const byCategory = new Map<string, CertifyRecord[]>();
+  for (const record of records) {
+    const existing = byCategory.get(record.category) ?? [];
+    existing.push(record);
+    byCategory.set(record.category, existing);
+  }
+
+  const seconds = (ms: number | null): string => ((ms ?? 0) / 1000).toFixed(3);
+  const latency = buildLatencyReport(records);
+  const suites = [...byCategory.entries()].map(([category, items]) => {
+    const failures = items.filter(item => item.status === 'FAIL' || item.status === 'NO_REPLY').length;
+    const skipped = items.filter(item => item.status === 'SKIPPED').length;
+    const totalMs = items.reduce((sum, item) => sum + (item.latencyMs ?? 0), 0);
+    const cases = items.map(item => {
+      const open = `    <testcase classname="${escapeXml(category)}" name="${escapeXml(recordTestName(item))}" time="${seconds(item.latencyMs)}"`;
+      if (item.status === 'FAIL' || item.status === 'NO_REPLY') {
+        const message = escapeXml(`${item.status} ${item.matchType}: ${item.meaning ?? ''}`);
+        const body = escapeXml(recordFailureDetails(item).join('\n'));
+        return `${open}>\n      <failure message="${message}" type="${item.status}">${body}</failure>\n    </testcase>`;
+      }
+      if (item.status === 'SKIPPED') {
+        return `${open}>\n      <skipped message="${escapeXml(item.skipReason ?? '')}" />\n    </testcase>`;
+      }
+      return `${open} />`;
+    });
+    const stats = latency.byCategory[category];
+    const properties = stats
+      ? [
+          '    <properties>',
+          ...(['min', 'median', 'p95', 'p99', 'max'] as const).map(
+            name => `      <property name="latency.${name}Ms" value="${stats[name]}" />`
+          ),
+          '    </properties>'
+        ]
+      : [];
+    return [
+      `  <testsuite name="${escapeXml(category)}" tests="${items.length}" failures="${failures}" errors="0" skipped="${skipped}" time="${seconds(totalMs)}" timestamp="${startedAt.toISOString()}">`,
+      ...properties,
+      ...cases,
+      '  </testsuite>'
+    ].join('\n');
+  });
+
+  const summary = buildSummary(records);
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="Device Certification" tests="${records.length}" failures="${summary.fail + summary.noReply}" errors="0" skipped="${summary.skipped}" time="${seconds(finishedAt.getTime() - startedAt.getTime())}">`,
+    ...suites,
+    '</testsuites>',
+    ''
+  ].join('\n');
+}
+
+export function buildTapReport(records: CertifyRecord[]): string {
+  const lines = ['TAP version 13', `1..${records.length}`];
+  records.forEach((record, index) => {
+    const description = `${record.category} - ${recordTestName(record)}`.replace(/#/g, '\\#');
+    if (record.status === 'SKIPPED') {
+      lines.push(`ok ${index + 1} ${description} # SKIP ${record.skipReason ?? ''}`.trimEnd());
+      return;
+    }
+    if (record.status === 'PASS') {
+      lines.push(`ok ${index + 1} ${description}`);
+      return;
+    }
+    lines.push(`not ok ${index + 1} ${description}`);
+    lines.push('  ---');
+    lines.push(`  latencyMs: ${record.latencyMs ?? 'null'}`);
+    for (const detail of recordFailureDetails(record)) {
+      const [key, ...rest] = detail.split(': ');
+      lines.push(`  ${key}: ${JSON.stringify(rest.join(': '))}`);
+    }
+    lines.push('  ...');
+  });
+  const latency = buildLatencyReport(records);
+  lines.push(`# latency overall ${formatLatencyStats(latency.overall)}`);
+  for (const [category, stats] of Object.entries(latency.byCategory)) {
+    lines.push(`# latency ${category.replace(/#/g, '')} ${formatLatencyStats(stats)}`);
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+export function writeArtifacts(
+  rootDir: string,
+  options: CliOptions,
+  startedAt: Date,
+  finishedAt: Date,
+  records: CertifyRecord[],
+  unsolicited: UnsolicitedFrameSummary[] = []
+): RunArtifacts {
+  const stamp = options.deviceName ? `${toFileStamp(startedAt)}-${toFileSafeName(options.deviceName)}` : toFileStamp(startedAt);
+  const dataDir = path.resolve(rootDir, 'data');
+  fs.mkdirSync(dataDir, { recursive: true });
+
+  const jsonPath = path.resolve(dataDir, `certify-${stamp}.json`);
+  const csvPath = path.resolve(dataDir, `certify-${stamp}.csv`);
+  const htmlPath = path.resolve(dataDir, `certify-${stamp}.html`);
+  const issuesJsonPath = path.resolve(dataDir, `certify-${stamp}.issues.json`);
+  const issuesCsvPath = path.resolve(dataDir, `certify-${stamp}.issues.csv`);
+  const latencyCsvPath = path.resolve(dataDir, `certify-${stamp}.latency.csv`);
+
+  const summary = buildSummary(records);
+  const latency = buildLatencyReport(records);
+  const flakiness = options.repeat > 1 ? buildFlakinessReport(records, options.repeat) : undefined;
+  const jsonPayload = {
+    startedAt: startedAt.toISOString(),
+    finishedAt: finishedAt.toISOString(),
+    options,
+    summary,
+    latency,
+    flakiness,
+    unsolicited,
+    records
+  };
+  fs.writeFileSync(jsonPath, JSON.stringify(jsonPayload, null, 2), 'utf8');
+
+  const header = options.columns;
+  const csvLines: string[] = [header.join(',')];
+  for (const record of records) {
+    const row = header.map(col => sanitizeForCsv(AVAILABLE_COLUMNS[col](record)));
+    csvLines.push(row.join(','));
+  }
+  fs.writeFileSync(csvPath, csvLines.join('\n'), 'utf8');
+
+  const issues = records.filter(record => ISSUE_STATUSES.has(record.status));
+  const issuesPayload = {
+    generatedFrom: path.basename(jsonPath),
+    summary: {
+      total: issues.length,
       fail: issues.filter(item => item.status === 'FAIL').length,
       noReply: issues.filter(item => item.status === 'NO_REPLY').length,
       skipped: issues.filter(item => item.status === 'SKIPPED').length
     },
+    flakiness: flakiness?.entries.filter(entry => entry.classification !== 'STABLE_PASS'),
     records: issues
   };
   fs.writeFileSync(issuesJsonPath, JSON.stringify(issuesPayload, null, 2), 'utf8');
@@ -1751,14 +3059,51 @@ function writeArtifacts(
   }
   fs.writeFileSync(issuesCsvPath, issueCsvLines.join('\n'), 'utf8');
 
+  const latencyCsvLines = ['scope,key,count,min,median,p95,p99,max'];
+  const latencyRows: Array<[string, string, LatencyStats | null]> = [
+    ['overall', 'all', latency.overall],
+    ...Object.entries(latency.byCode).map(([key, stats]): [string, string, LatencyStats] => ['code', key, stats]),
+    ...Object.entries(latency.byCategory).map(([key, stats]): [string, string, LatencyStats] => ['category', key, stats])
+  ];
+  for (const [scope, key, stats] of latencyRows) {
+    if (!stats) continue;
+    latencyCsvLines.push(
+      [scope, sanitizeForCsv(key), stats.count, stats.min, stats.median, stats.p95, stats.p99, stats.max].join(',')
+    );
+  }
+  fs.writeFileSync(latencyCsvPath, latencyCsvLines.join('\n'), 'utf8');
+
   const htmlHeaderCells = header.map(col => `<th>${col}</th>`).join('');
   const htmlRows = records
     .map(record => {
       const cells = header.map(col => `<td>${AVAILABLE_COLUMNS[col](record)}</td>`).join('');
-      return `<tr class="${record.status}">${cells}</tr>`;
+      return `<tr class="${record.statusColor}">${cells}</tr>`;
     })
     .join('\n');
 
+  const latencyTable = (title: string, groups: Record<string, LatencyStats>): string => {
+    const rows = Object.entries(groups)
+      .map(
+        ([key, stats]) =>
+          `<tr><td>${key}</td><td>${stats.count}</td><td>${stats.min}</td><td>${stats.median}</td><td>${stats.p95}</td><td>${stats.p99}</td><td>${stats.max}</td></tr>`
+      )
+      .join('\n');
+    return `<h2>${title}</h2>
+  <table class="latency">
+    <thead><tr><th>${title.startsWith('Latency by code') ? 'Code' : 'Category'}</th><th>Count</th><th>Min</th><th>Median</th><th>P95</th><th>P99</th><th>Max</th></tr></thead>
+    <tbody>
+      ${rows}
+    </tbody>
+  </table>`;
+  };
+  const histogramMax = Math.max(1, ...latency.histogram.map(bucket => bucket.count));
+  const histogramRows = latency.histogram
+    .map(
+      bucket =>
+        `<tr><td>${bucket.label}</td><td>${bucket.count}</td><td><div class="bar" style="width:${Math.round((bucket.count / histogramMax) * 100)}%"></div></td></tr>`
+    )
+    .join('\n');
+
   const html = `<!doctype html>
 <html>
 <head>
@@ -1769,11 +3114,13 @@ function writeArtifacts(
     table { border-collapse: collapse; width: 100%; font-size: 12px; }
     th, td { border: 1px solid #D1D5DB; padding: 6px 8px; text-align: left; vertical-align: top; }
     th { background: #F3F4F6; }
-    tr.PASS { background: #ECFDF5; }
-    tr.FAIL { background: #FEF2F2; }
-    tr.NO_REPLY { background: #FFF7ED; }
-    tr.SKIPPED { background: #F9FAFB; color: #6B7280; }
+    tr.GREEN { background: #ECFDF5; }
+    tr.YELLOW { background: #FEF9C3; }
+    tr.RED { background: #FEF2F2; }
+    tr.GRAY { background: #F9FAFB; color: #6B7280; }
     .meta { margin-bottom: 16px; padding: 10px 12px; border: 1px solid #D1D5DB; border-radius: 8px; background: #F9FAFB; }
+    table.latency { width: auto; margin-bottom: 16px; }
+    .bar { height: 10px; min-width: 1px; background: #2563EB; }
   </style>
 </head>
 <body>
@@ -1782,6 +3129,10 @@ function writeArtifacts(
     <div><strong>Started:</strong> ${startedAt.toISOString()}</div>
     <div><strong>Finished:</strong> ${finishedAt.toISOString()}</div>
     <div><strong>Summary:</strong> PASS=${summary.pass}, FAIL=${summary.fail}, NO_REPLY=${summary.noReply}, SKIPPED=${summary.skipped}</div>
+    <div><strong>Stale frames:</strong> late replies=${summary.lateReplies}, unsolicited=${summary.unsolicitedFrames}</div>
+    ${unsolicited.length > 0 ? `<div><strong>Unsolicited by code:</strong> ${escapeHtmlText(formatUnsolicitedSummary(unsolicited))}</div>` : ''}
+    ${flakiness ? `<div><strong>Repeat x${flakiness.repeat}:</strong> STABLE_PASS=${flakiness.stablePass}, FLAKY=${flakiness.flaky}, STABLE_FAIL=${flakiness.stableFail}</div>` : ''}
+    <div><strong>Latency (ms):</strong> ${formatLatencyStats(latency.overall)}; budget warnings=${latency.budgetWarnings}, budget failures=${latency.budgetFailures}</div>
   </div>
   <table>
     <thead>
@@ -1791,160 +3142,684 @@ function writeArtifacts(
       ${htmlRows}
     </tbody>
   </table>
+  <h2>Latency histogram</h2>
+  <table class="latency">
+    <thead><tr><th>Bucket</th><th>Count</th><th style="width:300px"></th></tr></thead>
+    <tbody>
+      ${histogramRows}
+    </tbody>
+  </table>
+  ${latencyTable('Latency by code (ms)', latency.byCode)}
+  ${latencyTable('Latency by category (ms)', latency.byCategory)}
 </body>
 </html>`;
   fs.writeFileSync(htmlPath, html, 'utf8');
 
-  return {
+  const artifacts: RunArtifacts = {
     jsonPath,
     csvPath,
     htmlPath,
     issuesJsonPath,
-    issuesCsvPath
+    issuesCsvPath,
+    latencyCsvPath
   };
+  if (options.reports.includes('junit')) {
+    artifacts.junitPath = path.resolve(dataDir, `certify-${stamp}.junit.xml`);
+    fs.writeFileSync(artifacts.junitPath, buildJUnitReport(records, startedAt, finishedAt), 'utf8');
+  }
+  if (options.reports.includes('tap')) {
+    artifacts.tapPath = path.resolve(dataDir, `certify-${stamp}.tap`);
+    fs.writeFileSync(artifacts.tapPath, buildTapReport(records), 'utf8');
+  }
+  return artifacts;
 }
 
-function loadTruth(rootDir: string): TruthCommandRow[] {
-  const truthPath = path.resolve(rootDir, 'data', 'commands.truth.json');
-  if (!fs.existsSync(truthPath)) {
-    throw new Error(`Missing truth file: ${truthPath}. Run: npm run build-truth`);
+export function loadRunArtifact(rootDir: string, file: string): RunArtifactPayload {
+  const fileName = path.basename(file);
+  if (!/^certify-.+\.json$/.test(fileName) || fileName.endsWith('.issues.json')) {
+    throw new Error(`Not a run artifact: ${file}`);
   }
-  const parsed = JSON.parse(fs.readFileSync(truthPath, 'utf8')) as TruthFile;
-  if (!Array.isArray(parsed.commands)) {
-    throw new Error('Invalid truth file: commands array missing');
+  const artifactPath = path.resolve(rootDir, 'data', fileName);
+  if (!fs.existsSync(artifactPath)) {
+    throw new Error(`Run artifact not found: ${artifactPath}`);
   }
-  return parsed.commands;
+  const payload = JSON.parse(fs.readFileSync(artifactPath, 'utf8')) as RunArtifactPayload;
+  if (!Array.isArray(payload.records)) {
+    throw new Error(`Invalid run artifact (records array missing): ${artifactPath}`);
+  }
+  return payload;
 }
 
-function loadIssueRecords(rootDir: string, issuesFile: string): IssueRecord[] {
-  const issuePath = path.isAbsolute(issuesFile) ? issuesFile : path.resolve(rootDir, issuesFile);
-  if (!fs.existsSync(issuePath)) {
-    throw new Error(`Issues file not found: ${issuePath}`);
+export function listRunHistory(rootDir: string, hooks: RunHooks = {}): RunHistoryEntry[] {
+  const dataDir = path.resolve(rootDir, 'data');
+  if (!fs.existsSync(dataDir)) return [];
+  const entries: RunHistoryEntry[] = [];
+  for (const fileName of fs.readdirSync(dataDir)) {
+    if (!fileName.startsWith('certify-') || !fileName.endsWith('.json') || fileName.endsWith('.issues.json')) continue;
+    try {
+      const payload = loadRunArtifact(rootDir, fileName);
+      entries.push({
+        file: fileName,
+        startedAt: payload.startedAt,
+        finishedAt: payload.finishedAt,
+        mode: payload.options?.mode,
+        target: payload.options ? `${payload.options.targetHost}:${payload.options.targetPort}` : '',
+        total: payload.records.length,
+        summary: payload.summary ?? buildSummary(payload.records)
+      });
+    } catch (error) {
+      warnLine(hooks, `WARNING: Skipping unreadable run artifact ${fileName}: ${String(error)}`);
+    }
   }
+  return entries.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
 
-  const payload = JSON.parse(fs.readFileSync(issuePath, 'utf8')) as { records?: unknown };
-  const recordsRaw = payload.records;
-  if (!Array.isArray(recordsRaw)) {
-    throw new Error(`Invalid issues file (records array missing): ${issuePath}`);
+export const DEFAULT_DIFF_LATENCY_THRESHOLD_MS = 100;
+
+// Replies that report live device state (uptime counter, HDMI cabling, current picture settings) rather than
+// anything the suite set. Their status and match type are still compared; the parsed values are not.
+export const GOLDEN_VOLATILE_PARSED_CODES = new Set(['C241', 'C25B', 'C33D']);
+
+// Generated numeric cases get a ":gen-<value>" suffix per run, so match them by set code and value instead.
+function recordMatchKey(record: CertifyRecord): string {
+  if (record.source !== 'truth' && record.value != null) {
+    return `${normalizeCode(record.setCode) ?? record.commandKey}=${record.value}`;
   }
+  return record.commandKey;
+}
 
-  return recordsRaw as IssueRecord[];
+function stableStringify(value: unknown): string {
+  if (value == null) return 'null';
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>).sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
 }
 
-function buildIssuesCases(
-  rootDir: string,
-  issuesFile: string,
-  byKey: Map<string, TruthCommandRow>,
-  bySetCode: Map<string, TruthCommandRow[]>,
-  numericSpecs: Map<string, NumericSpec>
-): CertifyCase[] {
-  const issueRecords = loadIssueRecords(rootDir, issuesFile);
-  const filtered = issueRecords.filter(record => {
-    const status = (record.status ?? '').toUpperCase();
-    const match = (record.matchType ?? '').toUpperCase();
-    return ISSUE_STATUSES.has(status) || match === 'MISMATCH' || match.includes('NO_REPLY');
-  });
+export function compareWithGolden(
+  baseline: RunArtifactPayload,
+  records: CertifyRecord[],
+  baselinePath: string,
+  fullRun: boolean
+): GoldenComparison {
+  const expectedByKey = new Map(baseline.records.map(record => [recordMatchKey(record), record]));
+  const actualKeys = new Set<string>();
+  const divergences: GoldenDivergence[] = [];
+  const unexpected: string[] = [];
+  let compared = 0;
 
-  const cases: CertifyCase[] = [];
-  const seen = new Set<string>();
+  for (const record of records) {
+    const key = recordMatchKey(record);
+    actualKeys.add(key);
+    const expected = expectedByKey.get(key);
+    if (!expected) {
+      unexpected.push(key);
+      continue;
+    }
+    compared += 1;
+    const fields: Array<[GoldenField, string, string]> = [
+      ['status', expected.status, record.status],
+      ['matchType', expected.matchType, record.matchType],
+      ['validationMode', expected.validationMode, record.validationMode]
+    ];
+    if (!GOLDEN_VOLATILE_PARSED_CODES.has(normalizeCode(record.setCode) ?? '')) {
+      fields.push(['parsed', stableStringify(expected.parsed), stableStringify(record.parsed)]);
+    }
+    for (const [field, expectedText, actualText] of fields) {
+      if (expectedText !== actualText) {
+        divergences.push({ key, field, expected: expectedText, actual: actualText });
+      }
+    }
+  }
 
-  for (const record of filtered) {
-    const key = record.commandKey ? String(record.commandKey) : '';
-    const setCodeRaw = record.setCode ?? record.command ?? null;
-    const setCode = normalizeCode(setCodeRaw);
-    const value = record.value == null ? null : Number(record.value);
-    const dedupeKey = `${key}|${setCode ?? ''}|${value == null ? '' : value}`;
-    if (seen.has(dedupeKey)) continue;
-    seen.add(dedupeKey);
+  const missing = fullRun ? [...expectedByKey.keys()].filter(key => !actualKeys.has(key)) : [];
+  return {
+    baselinePath,
+    compared,
+    divergences,
+    missing,
+    unexpected,
+    expectedSummary: baseline.summary ?? buildSummary(baseline.records),
+    actualSummary: buildSummary(records),
+    ok: divergences.length === 0 && missing.length === 0 && unexpected.length === 0
+  };
+}
 
-    if (setCode && numericSpecs.has(setCode) && value != null && Number.isFinite(value)) {
-      const boundedValue = Math.max(0, Math.min(100, Math.round(value)));
-      cases.push(buildGeneratedNumericCase(numericSpecs.get(setCode)!, boundedValue, 'generated'));
-      continue;
+export function formatGoldenReport(comparison: GoldenComparison): string[] {
+  const lines = [
+    `Golden comparison vs ${comparison.baselinePath}: compared=${comparison.compared} divergences=${comparison.divergences.length} missing=${comparison.missing.length} unexpected=${comparison.unexpected.length}`,
+    `  expected ${summaryLine(comparison.expectedSummary)}`,
+    `  actual   ${summaryLine(comparison.actualSummary)}`
+  ];
+
+  const byKey = new Map<string, GoldenDivergence[]>();
+  for (const divergence of comparison.divergences) {
+    const existing = byKey.get(divergence.key) ?? [];
+    existing.push(divergence);
+    byKey.set(divergence.key, existing);
+  }
+  for (const [key, items] of byKey) {
+    lines.push(`  ${key}`);
+    for (const item of items) {
+      lines.push(`    ${item.field.padEnd(15)} - ${item.expected}`);
+      lines.push(`    ${''.padEnd(15)} + ${item.actual}`);
     }
+  }
+  for (const key of comparison.missing) {
+    lines.push(`  ${key}: missing from this run`);
+  }
+  for (const key of comparison.unexpected) {
+    lines.push(`  ${key}: not in baseline`);
+  }
+  lines.push(comparison.ok ? 'Golden comparison passed' : 'Golden comparison FAILED');
+  return lines;
+}
 
-    if (key && byKey.has(key)) {
-      cases.push(buildCaseFromTruthRow(byKey.get(key)!, 'truth'));
+export function loadGoldenBaseline(rootDir: string, file: string): { path: string; payload: RunArtifactPayload } {
+  const baselinePath = path.isAbsolute(file) ? file : path.resolve(rootDir, file);
+  if (!fs.existsSync(baselinePath)) {
+    throw new Error(`Golden baseline not found: ${baselinePath}`);
+  }
+  const payload = JSON.parse(fs.readFileSync(baselinePath, 'utf8')) as RunArtifactPayload;
+  if (!Array.isArray(payload.records)) {
+    throw new Error(`Invalid golden baseline (records array missing): ${baselinePath}`);
+  }
+  return { path: baselinePath, payload };
+}
+
+export function parseDiffOptions(argv: string[]): DiffOptions {
+  const files: string[] = [];
+  let latencyThresholdMs = DEFAULT_DIFF_LATENCY_THRESHOLD_MS;
+
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index];
+    if (arg === '--diff') continue;
+
+    if (arg === '--latency-threshold') {
+      const next = argv[index + 1];
+      if (!next) throw new Error('--latency-threshold requires milliseconds');
+      index += 1;
+      const numeric = Number(next);
+      if (!Number.isFinite(numeric) || numeric < 0) {
+        throw new Error(`Invalid --latency-threshold: ${next}`);
+      }
+      latencyThresholdMs = numeric;
       continue;
     }
 
-    if (setCode && bySetCode.has(setCode)) {
-      const row = bySetCode.get(setCode)![0];
-      cases.push(buildCaseFromTruthRow(row, 'truth'));
-      continue;
+    if (arg.startsWith('--')) {
+      throw new Error(`Unknown argument for --diff: ${arg}`);
     }
+    files.push(arg);
+  }
 
-    console.warn(`WARNING: Could not map issue record to truth command: commandKey="${key}" setCode="${setCodeRaw ?? ''}"`);
+  if (files.length !== 2) {
+    throw new Error('--diff requires two run JSON files: --diff <base.json> <compare.json>');
   }
+  return { baseFile: files[0], compareFile: files[1], latencyThresholdMs };
+}
 
-  const normalCases = cases.filter(item => !item.isPowerCommand);
-  const powerCases = cases.filter(item => item.isPowerCommand);
-  return [...normalCases, ...powerCases];
+function resolveRunFile(rootDir: string, file: string): string {
+  if (path.isAbsolute(file)) return file;
+  const candidates = [path.resolve(rootDir, file), path.resolve(rootDir, 'data', file), path.resolve(file)];
+  return candidates.find(candidate => fs.existsSync(candidate)) ?? candidates[0];
 }
 
-function verifyTruthChecksumCoverage(rows: TruthCommandRow[]): { checked: number; mismatches: number } {
-  let checked = 0;
-  let mismatches = 0;
-  for (const row of rows) {
-    const request = parseHexBytes(row.requestHex);
-    if (!isUdpLike(request)) continue;
-    checked += 1;
-    const expected = computePdfChecksum(request);
-    const actual = request[request.length - 1];
-    if (expected !== actual) mismatches += 1;
+function loadRunFile(rootDir: string, file: string): { path: string; payload: RunArtifactPayload } {
+  const runPath = resolveRunFile(rootDir, file);
+  if (!fs.existsSync(runPath)) {
+    throw new Error(`Run file not found: ${runPath}`);
   }
-  return { checked, mismatches };
+  const payload = JSON.parse(fs.readFileSync(runPath, 'utf8')) as RunArtifactPayload;
+  if (!Array.isArray(payload.records)) {
+    throw new Error(`Invalid run file (records array missing): ${runPath}`);
+  }
+  return { path: runPath, payload };
 }
 
-function logNumericSpecSummary(specs: Map<string, NumericSpec>): void {
-  console.log('Numeric command map (manual value/checksum indices):');
-  for (const setCode of NUMERIC_SET_CODES) {
-    const spec = specs.get(setCode);
-    if (!spec) {
-      console.log(`  0x${setCode}: missing from truth`);
+export function diffRunArtifacts(
+  base: RunArtifactPayload,
+  compare: RunArtifactPayload,
+  latencyThresholdMs: number,
+  basePath = '',
+  comparePath = ''
+): RunDiff {
+  const baseByKey = new Map(base.records.map(record => [recordMatchKey(record), record]));
+  const compareKeys = new Set<string>();
+  const changed: RecordChange[] = [];
+  const added: string[] = [];
+  let unchanged = 0;
+
+  for (const after of compare.records) {
+    const key = recordMatchKey(after);
+    compareKeys.add(key);
+    const before = baseByKey.get(key);
+    if (!before) {
+      added.push(key);
       continue;
     }
-    console.log(
-      `  0x${setCode}: valueIndex=${spec.valueIndex}, checksumIndex=${spec.checksumIndex}, baseRow=${spec.baseRow.rowNumber}`
-    );
-    console.log(`           baseRequest=${spec.baseRow.requestHex}`);
+
+    const fields: Array<[DiffField, string, string]> = [
+      ['status', before.status, after.status],
+      ['matchType', before.matchType, after.matchType],
+      ['rxHex', before.rxHex ?? '', after.rxHex ?? ''],
+      ['parsed', stableStringify(before.parsed), stableStringify(after.parsed)],
+      ['meaning', before.meaning ?? '', after.meaning ?? '']
+    ];
+    const changes = fields
+      .filter(([, beforeText, afterText]) => beforeText !== afterText)
+      .map(([field, beforeText, afterText]) => ({ field, before: beforeText, after: afterText }));
+    const latencyShifted =
+      before.latencyMs != null && after.latencyMs != null && Math.abs(after.latencyMs - before.latencyMs) > latencyThresholdMs;
+
+    if (changes.length === 0 && !latencyShifted) {
+      unchanged += 1;
+      continue;
+    }
+    changed.push({
+      key,
+      category: after.category,
+      variant: after.variant,
+      changes,
+      latencyBefore: before.latencyMs,
+      latencyAfter: after.latencyMs,
+      latencyShifted
+    });
   }
-}
 
-function loadSuiteExclusions(rootDir: string, profile: ProfileName): Map<string, string> {
-  const exclusions = new Map<string, string>();
-  const profileFileByName: Record<ProfileName, string | null> = {
-    'exview-aio': path.resolve(rootDir, 'engine', 'profiles', 'exview-aio.exclusions.json'),
-    generic: null
+  return {
+    basePath,
+    comparePath,
+    baseStartedAt: base.startedAt,
+    compareStartedAt: compare.startedAt,
+    latencyThresholdMs,
+    baseSummary: base.summary ?? buildSummary(base.records),
+    compareSummary: compare.summary ?? buildSummary(compare.records),
+    changed,
+    added,
+    removed: [...baseByKey.keys()].filter(key => !compareKeys.has(key)),
+    unchanged
   };
-  const configPath = profileFileByName[profile];
-  if (!configPath) return exclusions;
-  if (!fs.existsSync(configPath)) return exclusions;
+}
 
-  try {
-    const parsed = JSON.parse(fs.readFileSync(configPath, 'utf8')) as SuiteExclusionFile;
-    if (!Array.isArray(parsed.excludeFromSuite)) return exclusions;
-    for (const item of parsed.excludeFromSuite) {
-      const code = normalizeCode(item.code);
+function summaryLine(summary: RunSummary): string {
+  return `PASS=${summary.pass} FAIL=${summary.fail} NO_REPLY=${summary.noReply} SKIPPED=${summary.skipped}`;
+}
+
+export function formatRunDiff(diff: RunDiff): string[] {
+  const lines = [
+    `Diff ${path.basename(diff.basePath)} -> ${path.basename(diff.comparePath)}`,
+    `  base    ${summaryLine(diff.baseSummary)}`,
+    `  compare ${summaryLine(diff.compareSummary)}`,
+    `  changed=${diff.changed.length} added=${diff.added.length} removed=${diff.removed.length} unchanged=${diff.unchanged} (latency threshold ${diff.latencyThresholdMs}ms)`
+  ];
+  for (const item of diff.changed) {
+    lines.push(`  ${item.key} (${item.variant})`);
+    for (const change of item.changes) {
+      lines.push(`    ${change.field.padEnd(10)} - ${change.before}`);
+      lines.push(`    ${''.padEnd(10)} + ${change.after}`);
+    }
+    if (item.latencyShifted) {
+      lines.push(`    ${'latencyMs'.padEnd(10)} ${item.latencyBefore} -> ${item.latencyAfter}`);
+    }
+  }
+  for (const key of diff.added) {
+    lines.push(`  + ${key} (new)`);
+  }
+  for (const key of diff.removed) {
+    lines.push(`  - ${key} (removed)`);
+  }
+  return lines;
+}
+
+function escapeHtmlText(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+export function buildDiffHtml(diff: RunDiff): string {
+  const changeRows = diff.changed
+    .flatMap(item => {
+      const rows = item.changes.map(
+        change =>
+          `<tr class="${change.field === 'status' ? 'FAIL' : 'CHANGED'}"><td>${escapeHtmlText(item.key)}</td><td>${escapeHtmlText(item.category)}</td><td>${escapeHtmlText(item.variant)}</td><td>${change.field}</td><td>${escapeHtmlText(change.before)}</td><td>${escapeHtmlText(change.after)}</td></tr>`
+      );
+      if (item.latencyShifted) {
+        rows.push(
+          `<tr class="LATENCY"><td>${escapeHtmlText(item.key)}</td><td>${escapeHtmlText(item.category)}</td><td>${escapeHtmlText(item.variant)}</td><td>latencyMs</td><td>${item.latencyBefore}</td><td>${item.latencyAfter}</td></tr>`
+        );
+      }
+      return rows;
+    })
+    .join('\n');
+  const keyList = (keys: string[]): string =>
+    keys.length === 0 ? '<p>None</p>' : `<ul>${keys.map(key => `<li>${escapeHtmlText(key)}</li>`).join('')}</ul>`;
+
+  return `<!doctype html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <title>Certification Run Diff</title>
+  <style>
+    body { font-family: Segoe UI, Arial, sans-serif; margin: 20px; color: #111827; }
+    table { border-collapse: collapse; width: 100%; font-size: 12px; }
+    th, td { border: 1px solid #D1D5DB; padding: 6px 8px; text-align: left; vertical-align: top; word-break: break-all; }
+    th { background: #F3F4F6; }
+    tr.FAIL { background: #FEF2F2; }
+    tr.CHANGED { background: #FFF7ED; }
+    tr.LATENCY { background: #F9FAFB; color: #6B7280; }
+    .meta { margin-bottom: 16px; padding: 10px 12px; border: 1px solid #D1D5DB; border-radius: 8px; background: #F9FAFB; }
+  </style>
+</head>
+<body>
+  <h1>Certification Run Diff</h1>
+  <div class="meta">
+    <div><strong>Base:</strong> ${escapeHtmlText(path.basename(diff.basePath))} (${escapeHtmlText(diff.baseStartedAt)}) ${summaryLine(diff.baseSummary)}</div>
+    <div><strong>Compare:</strong> ${escapeHtmlText(path.basename(diff.comparePath))} (${escapeHtmlText(diff.compareStartedAt)}) ${summaryLine(diff.compareSummary)}</div>
+    <div><strong>Changed:</strong> ${diff.changed.length}, <strong>Added:</strong> ${diff.added.length}, <strong>Removed:</strong> ${diff.removed.length}, <strong>Unchanged:</strong> ${diff.unchanged}, <strong>Latency threshold:</strong> ${diff.latencyThresholdMs}ms</div>
+  </div>
+  <table>
+    <thead>
+      <tr><th>Command</th><th>Category</th><th>Variant</th><th>Field</th><th>Base</th><th>Compare</th></tr>
+    </thead>
+    <tbody>
+      ${changeRows}
+    </tbody>
+  </table>
+  <h2>New commands</h2>
+  ${keyList(diff.added)}
+  <h2>Removed commands</h2>
+  ${keyList(diff.removed)}
+</body>
+</html>`;
+}
+
+export function writeDiffArtifacts(rootDir: string, diff: RunDiff): DiffArtifacts {
+  const dataDir = path.resolve(rootDir, 'data');
+  fs.mkdirSync(dataDir, { recursive: true });
+  const stamp = (file: string): string => path.basename(file, '.json').replace(/^certify-/, '');
+  const baseName = `diff-${stamp(diff.basePath)}-vs-${stamp(diff.comparePath)}`;
+  const jsonPath = path.resolve(dataDir, `${baseName}.json`);
+  const htmlPath = path.resolve(dataDir, `${baseName}.html`);
+  fs.writeFileSync(jsonPath, JSON.stringify(diff, null, 2), 'utf8');
+  fs.writeFileSync(htmlPath, buildDiffHtml(diff), 'utf8');
+  return { jsonPath, htmlPath };
+}
+
+export function runDiff(
+  options: DiffOptions,
+  hooks: RunHooks = {},
+  rootDir: string = defaultRootDir()
+): { diff: RunDiff; artifacts: DiffArtifacts } {
+  const base = loadRunFile(rootDir, options.baseFile);
+  const compare = loadRunFile(rootDir, options.compareFile);
+  const diff = diffRunArtifacts(base.payload, compare.payload, options.latencyThresholdMs, base.path, compare.path);
+  for (const line of formatRunDiff(diff)) {
+    logLine(hooks, line);
+  }
+  const artifacts = writeDiffArtifacts(rootDir, diff);
+  logLine(hooks, `JSON: ${artifacts.jsonPath}`);
+  logLine(hooks, `HTML: ${artifacts.htmlPath}`);
+  return { diff, artifacts };
+}
+
+export function loadTruth(rootDir: string): TruthCommandRow[] {
+  const truthPath = path.resolve(rootDir, 'data', 'commands.truth.json');
+  if (!fs.existsSync(truthPath)) {
+    throw new Error(`Missing truth file: ${truthPath}. Run: npm run build-truth`);
+  }
+  const parsed = JSON.parse(fs.readFileSync(truthPath, 'utf8')) as TruthFile;
+  if (!Array.isArray(parsed.commands)) {
+    throw new Error('Invalid truth file: commands array missing');
+  }
+  return parsed.commands;
+}
+
+function loadIssueRecords(rootDir: string, issuesFile: string): IssueRecord[] {
+  const issuePath = path.isAbsolute(issuesFile) ? issuesFile : path.resolve(rootDir, issuesFile);
+  if (!fs.existsSync(issuePath)) {
+    throw new Error(`Issues file not found: ${issuePath}`);
+  }
+
+  const payload = JSON.parse(fs.readFileSync(issuePath, 'utf8')) as { records?: unknown };
+  const recordsRaw = payload.records;
+  if (!Array.isArray(recordsRaw)) {
+    throw new Error(`Invalid issues file (records array missing): ${issuePath}`);
+  }
+
+  return recordsRaw as IssueRecord[];
+}
+
+export function buildIssuesCases(
+  rootDir: string,
+  issuesFile: string,
+  byKey: Map<string, TruthCommandRow>,
+  bySetCode: Map<string, TruthCommandRow[]>,
+  numericSpecs: Map<string, NumericSpec>,
+  hooks: RunHooks = {}
+): CertifyCase[] {
+  const issueRecords = loadIssueRecords(rootDir, issuesFile);
+  const filtered = issueRecords.filter(record => {
+    const status = (record.status ?? '').toUpperCase();
+    const match = (record.matchType ?? '').toUpperCase();
+    return ISSUE_STATUSES.has(status) || match === 'MISMATCH' || match.includes('NO_REPLY');
+  });
+
+  const cases: CertifyCase[] = [];
+  const seen = new Set<string>();
+
+  for (const record of filtered) {
+    const key = record.commandKey ? String(record.commandKey) : '';
+    const setCodeRaw = record.setCode ?? record.command ?? null;
+    const setCode = normalizeCode(setCodeRaw);
+    const value = record.value == null ? null : Number(record.value);
+    const dedupeKey = `${key}|${setCode ?? ''}|${value == null ? '' : value}`;
+    if (seen.has(dedupeKey)) continue;
+    seen.add(dedupeKey);
+
+    if (setCode && numericSpecs.has(setCode) && value != null && Number.isFinite(value)) {
+      const boundedValue = Math.max(0, Math.min(100, Math.round(value)));
+      cases.push(buildGeneratedNumericCase(numericSpecs.get(setCode)!, boundedValue, 'generated'));
+      continue;
+    }
+
+    if (key && byKey.has(key)) {
+      cases.push(buildCaseFromTruthRow(byKey.get(key)!, 'truth'));
+      continue;
+    }
+
+    if (setCode && bySetCode.has(setCode)) {
+      const row = bySetCode.get(setCode)![0];
+      cases.push(buildCaseFromTruthRow(row, 'truth'));
+      continue;
+    }
+
+    warnLine(hooks, `WARNING: Could not map issue record to truth command: commandKey="${key}" setCode="${setCodeRaw ?? ''}"`);
+  }
+
+  const normalCases = cases.filter(item => !item.isPowerCommand);
+  const powerCases = cases.filter(item => item.isPowerCommand);
+  return [...normalCases, ...powerCases];
+}
+
+function verifyTruthChecksumCoverage(rows: TruthCommandRow[]): { checked: number; mismatches: number } {
+  let checked = 0;
+  let mismatches = 0;
+  for (const row of rows) {
+    const request = parseHexBytes(row.requestHex);
+    if (!isUdpLike(request)) continue;
+    checked += 1;
+    const expected = computePdfChecksum(request);
+    const actual = request[request.length - 1];
+    if (expected !== actual) mismatches += 1;
+  }
+  return { checked, mismatches };
+}
+
+function logNumericSpecSummary(specs: Map<string, NumericSpec>, hooks: RunHooks): void {
+  logLine(hooks, 'Numeric command map (manual value/checksum indices):');
+  for (const setCode of NUMERIC_SET_CODES) {
+    const spec = specs.get(setCode);
+    if (!spec) {
+      logLine(hooks, `  0x${setCode}: missing from truth`);
+      continue;
+    }
+    logLine(
+      hooks,
+      `  0x${setCode}: valueIndex=${spec.valueIndex}, checksumIndex=${spec.checksumIndex}, baseRow=${spec.baseRow.rowNumber}`
+    );
+    logLine(hooks, `           baseRequest=${spec.baseRow.requestHex}`);
+  }
+}
+
+export function loadSuiteExclusions(rootDir: string, profile: ProfileName, hooks: RunHooks = {}): Map<string, string> {
+  const exclusions = new Map<string, string>();
+  const profileFileByName: Record<ProfileName, string | null> = {
+    'exview-aio': path.resolve(rootDir, 'engine', 'profiles', 'exview-aio.exclusions.json'),
+    generic: null
+  };
+  const configPath = profileFileByName[profile];
+  if (!configPath) return exclusions;
+  if (!fs.existsSync(configPath)) return exclusions;
+
+  try {
+    const parsed = JSON.parse(fs.readFileSync(configPath, 'utf8')) as SuiteExclusionFile;
+    if (!Array.isArray(parsed.excludeFromSuite)) return exclusions;
+    for (const item of parsed.excludeFromSuite) {
+      const code = normalizeCode(item.code);
       if (!code) continue;
       const reason = String(item.reason ?? '').trim();
       if (!reason) continue;
       exclusions.set(code, reason);
     }
   } catch (error) {
-    console.warn(`WARNING: Failed to load suite exclusions from ${configPath}: ${String(error)}`);
+    warnLine(hooks, `WARNING: Failed to load suite exclusions from ${configPath}: ${String(error)}`);
   }
 
   return exclusions;
 }
 
-async function run(): Promise<void> {
-  const options = parseOptions(process.argv.slice(2));
+export function loadLatencyBudgets(rootDir: string, profile: ProfileName, hooks: RunHooks = {}): Map<string, LatencyBudget> {
+  const budgets = new Map<string, LatencyBudget>();
+  const profileFileByName: Record<ProfileName, string | null> = {
+    'exview-aio': path.resolve(rootDir, 'engine', 'profiles', 'exview-aio.latency.json'),
+    generic: null
+  };
+  const configPath = profileFileByName[profile];
+  if (!configPath) return budgets;
+  if (!fs.existsSync(configPath)) return budgets;
+
+  try {
+    const parsed = JSON.parse(fs.readFileSync(configPath, 'utf8')) as LatencyBudgetFile;
+    if (!Array.isArray(parsed.budgets)) return budgets;
+    for (const item of parsed.budgets) {
+      const code = normalizeCode(item.code);
+      if (!code) continue;
+      const warnMs = Number.isFinite(item.warnMs) ? Number(item.warnMs) : null;
+      const failMs = Number.isFinite(item.failMs) ? Number(item.failMs) : null;
+      if (warnMs == null && failMs == null) continue;
+      budgets.set(code, { warnMs, failMs });
+    }
+  } catch (error) {
+    warnLine(hooks, `WARNING: Failed to load latency budgets from ${configPath}: ${String(error)}`);
+  }
+
+  return budgets;
+}
+
+// Only correct replies are judged against the budget; anything already failing keeps its own outcome.
+export function applyLatencyBudget(record: CertifyRecord, budgets: Map<string, LatencyBudget>): CertifyRecord {
+  if (record.status !== 'PASS' || record.latencyMs == null) return record;
+  const code = normalizeCode(record.setCode);
+  const budget = code ? budgets.get(code) : undefined;
+  if (!budget) return record;
+
+  if (budget.failMs != null && record.latencyMs > budget.failMs) {
+    return setOutcome(
+      record,
+      'FAIL',
+      'LATENCY_BUDGET_EXCEEDED',
+      record.meaning,
+      `Latency ${record.latencyMs}ms exceeds fail budget ${budget.failMs}ms`
+    );
+  }
+  if (budget.warnMs != null && record.latencyMs > budget.warnMs) {
+    const note = `Latency ${record.latencyMs}ms exceeds warn budget ${budget.warnMs}ms`;
+    record.statusColor = 'YELLOW';
+    record.note = record.note ? `${record.note} | ${note}` : note;
+    record.notes.push(note);
+  }
+  return record;
+}
+
+const LATENCY_HISTOGRAM_EDGES_MS = [5, 10, 20, 50, 100, 200, 500, 1000];
+
+function percentile(sorted: number[], fraction: number): number {
+  const rank = Math.max(1, Math.ceil(fraction * sorted.length));
+  return sorted[Math.min(sorted.length, rank) - 1];
+}
+
+export function buildLatencyStats(values: number[]): LatencyStats | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    min: sorted[0],
+    median: percentile(sorted, 0.5),
+    p95: percentile(sorted, 0.95),
+    p99: percentile(sorted, 0.99),
+    max: sorted[sorted.length - 1]
+  };
+}
+
+function groupLatencyStats(records: CertifyRecord[], keyOf: (record: CertifyRecord) => string): Record<string, LatencyStats> {
+  const groups = new Map<string, number[]>();
+  for (const record of records) {
+    if (record.latencyMs == null) continue;
+    const key = keyOf(record);
+    const existing = groups.get(key) ?? [];
+    existing.push(record.latencyMs);
+    groups.set(key, existing);
+  }
+  const result: Record<string, LatencyStats> = {};
+  for (const [key, values] of [...groups.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+    result[key] = buildLatencyStats(values)!;
+  }
+  return result;
+}
+
+export function buildLatencyReport(records: CertifyRecord[]): LatencyReport {
+  const values = records.map(record => record.latencyMs).filter((value): value is number => value != null);
+  const histogram: LatencyHistogramBucket[] = [];
+  let lower = 0;
+  for (const edge of LATENCY_HISTOGRAM_EDGES_MS) {
+    histogram.push({ label: `${lower}-${edge}ms`, upToMs: edge, count: values.filter(value => value >= lower && value < edge).length });
+    lower = edge;
+  }
+  histogram.push({ label: `>=${lower}ms`, upToMs: null, count: values.filter(value => value >= lower).length });
+
+  return {
+    overall: buildLatencyStats(values),
+    byCode: groupLatencyStats(records, record => record.command),
+    byCategory: groupLatencyStats(records, record => record.category),
+    histogram,
+    budgetWarnings: records.filter(record => record.status === 'PASS' && record.statusColor === 'YELLOW').length,
+    budgetFailures: records.filter(record => record.matchType === 'LATENCY_BUDGET_EXCEEDED').length
+  };
+}
+
+function formatLatencyStats(stats: LatencyStats | null): string {
+  if (!stats) return 'no replies';
+  return `n=${stats.count} min=${stats.min} median=${stats.median} p95=${stats.p95} p99=${stats.p99} max=${stats.max}`;
+}
+
+export function defaultRootDir(): string {
   const scriptDir = path.dirname(fileURLToPath(import.meta.url));
-  const rootDir = path.resolve(scriptDir, '..', '..');
-  const rows = loadTruth(rootDir);
-  const suiteExclusions = options.mode === 'suite' ? loadSuiteExclusions(rootDir, options.profile) : new Map<string, string>();
+  return path.resolve(scriptDir, '..', '..');
+}
 
+export function indexTruth(rows: TruthCommandRow[]): TruthIndex {
   const byKey = new Map<string, TruthCommandRow>();
   const bySetCode = new Map<string, TruthCommandRow[]>();
   for (const row of rows) {
@@ -1955,44 +3830,71 @@ async function run(): Promise<void> {
     existing.push(row);
     bySetCode.set(setCode, existing);
   }
+  return { rows, byKey, bySetCode, numericSpecs: deriveNumericSpecs(bySetCode) };
+}
+
+export function buildRunCases(rootDir: string, options: CliOptions, truth: TruthIndex, hooks: RunHooks = {}): CertifyCase[] {
+  if (options.mode === 'suite') {
+    return buildSuiteCases(truth.rows, truth.numericSpecs);
+  }
+  if (options.mode === 'single') {
+    return [buildSingleCase(truth.byKey, truth.bySetCode, truth.numericSpecs, options.singleSelector!, options.value)];
+  }
+  if (options.mode === 'issues') {
+    return buildIssuesCases(rootDir, options.issuesFile!, truth.byKey, truth.bySetCode, truth.numericSpecs, hooks);
+  }
+  return buildSanityCases(truth.bySetCode, truth.numericSpecs);
+}
+
+export async function runCertification(
+  options: CliOptions,
+  hooks: RunHooks = {},
+  rootDir: string = defaultRootDir()
+): Promise<CertificationResult> {
+  const rows = loadTruth(rootDir);
+  const goldenBaseline = options.golden ? loadGoldenBaseline(rootDir, options.golden) : null;
+  const latencyBudgets = loadLatencyBudgets(rootDir, options.profile, hooks);
+  const suiteExclusions = options.mode === 'suite' ? loadSuiteExclusions(rootDir, options.profile, hooks) : new Map<string, string>();
+  const prompt = hooks.prompt ?? waitForEnter;
 
   const checksumCoverage = verifyTruthChecksumCoverage(rows);
-  console.log(
+  logLine(
+    hooks,
     `Checksum self-check (PDF rule bytes 9..len-2): checked=${checksumCoverage.checked}, mismatches=${checksumCoverage.mismatches}`
   );
   if (checksumCoverage.mismatches > 0) {
-    console.warn('WARNING: Some truth request packets do not satisfy the PDF checksum rule.');
+    warnLine(hooks, 'WARNING: Some truth request packets do not satisfy the PDF checksum rule.');
   }
 
-  const numericSpecs = deriveNumericSpecs(bySetCode);
-  logNumericSpecSummary(numericSpecs);
+  const truth = indexTruth(rows);
+  logNumericSpecSummary(truth.numericSpecs, hooks);
 
-  let runCases: CertifyCase[] = [];
-  if (options.mode === 'suite') {
-    runCases = buildSuiteCases(rows, numericSpecs);
-  } else if (options.mode === 'single') {
-    runCases = [buildSingleCase(byKey, bySetCode, numericSpecs, options.singleSelector!, options.value)];
-  } else if (options.mode === 'issues') {
-    runCases = buildIssuesCases(rootDir, options.issuesFile!, byKey, bySetCode, numericSpecs);
-  } else {
-    runCases = buildSanityCases(bySetCode, numericSpecs);
-  }
+  const runCases = buildRunCases(rootDir, options, truth, hooks);
 
   if (options.mode === 'suite' && suiteExclusions.size > 0) {
     const list = [...suiteExclusions.entries()].map(([code, reason]) => `0x${code} (${reason})`).join(', ');
-    console.log(`Suite exclusions for profile "${options.profile}": ${list}`);
+    logLine(hooks, `Suite exclusions for profile "${options.profile}": ${list}`);
   }
 
   const powerExcluded = runCases.filter(item => item.isPowerCommand).length;
   if ((options.mode === 'suite' || options.mode === 'issues') && !options.includePower && powerExcluded > 0) {
-    console.log(`Power stage excluded by default: ${powerExcluded} case(s) skipped. Use --include-power to run them.`);
+    logLine(hooks, `Power stage excluded by default: ${powerExcluded} case(s) skipped. Use --include-power to run them.`);
   }
 
-  const socket = dgram.createSocket('udp4');
-  const bindInfo = await bindSocket(socket, options.localPort);
-  console.log(`Bound UDP local endpoint: ${bindInfo.address}:${bindInfo.port}`);
-  console.log(`Remote UDP target: ${options.targetHost}:${options.targetPort}`);
-  console.log(`Profile: ${options.profile}`);
+  const transport = createRunTransport(options);
+  await transport.open();
+  const serialTransport = createRunSerialTransport(options);
+  try {
+    await serialTransport?.open();
+  } catch (error) {
+    await serialTransport?.close();
+    await transport.close();
+    throw error;
+  }
+  for (const line of [...transport.describe(), ...(serialTransport?.describe() ?? [])]) {
+    logLine(hooks, line);
+  }
+  logLine(hooks, `Profile: ${options.profile}`);
 
   const startedAt = new Date();
   const records: CertifyRecord[] = [];
@@ -2000,42 +3902,69 @@ async function run(): Promise<void> {
   const rateIntervalMs = Math.max(1, Math.round(1000 / options.rate));
   let nextDelayMs = 0;
   let processed = 0;
+  let cancelled = false;
+
+  const skipReasonFor = (caseItem: CertifyCase): { reason: string; excluded: boolean } | null => {
+    if (caseItem.isPowerCommand && (options.mode === 'suite' || options.mode === 'issues') && !options.includePower) {
+      return { reason: 'Power stage excluded (add --include-power)', excluded: false };
+    }
+    if (caseItem.serialOnly && !serialTransport) {
+      return { reason: 'Serial-only or non-UDP request frame (add --serial-port)', excluded: false };
+    }
+    if (options.mode === 'suite') {
+      const setCode = normalizeCode(caseItem.setCode);
+      const exclusionReason = setCode ? suiteExclusions.get(setCode) : undefined;
+      if (exclusionReason) return { reason: exclusionReason, excluded: true };
+    }
+    return null;
+  };
+  // Skipped cases are recorded once; only executed cases are repeated.
+  const totalRecords = runCases.reduce((sum, caseItem) => sum + (skipReasonFor(caseItem) ? 1 : options.repeat), 0);
+
+  const recordFinished = (record: CertifyRecord): void => {
+    records.push(record);
+    processed += 1;
+    logLine(hooks, makeProgressLine(processed, totalRecords, record));
+    emitEvent(hooks, { type: 'case-finished', index: processed, total: totalRecords, record });
+  };
+
+  const recordSkipped = (caseItem: CertifyCase, reason: string): void => {
+    const record = buildSkippedRecord(caseItem, reason);
+    records.push(record);
+    processed += 1;
+    logLine(hooks, makeProgressLine(processed, totalRecords, record));
+    emitEvent(hooks, { type: 'case-skipped', index: processed, total: totalRecords, record, reason });
+  };
+
+  const promptOperator = async (caseItem: CertifyCase, message: string): Promise<void> => {
+    emitEvent(hooks, { type: 'prompt-required', commandKey: caseItem.commandKey, message });
+    await prompt(message);
+  };
+
+  emitEvent(hooks, { type: 'run-started', startedAt: startedAt.toISOString(), options, total: totalRecords });
 
   try {
     for (const caseItem of runCases) {
+      if (cancelled) break;
       if (nextDelayMs > 0) {
         await sleep(nextDelayMs);
       }
-
-      if (caseItem.isPowerCommand && (options.mode === 'suite' || options.mode === 'issues') && !options.includePower) {
-        records.push(buildSkippedRecord(caseItem, 'Power stage excluded (add --include-power)'));
-        processed += 1;
-        console.log(makeProgressLine(processed, runCases.length, records[records.length - 1]));
-        nextDelayMs = 0;
-        continue;
+      if (hooks.signal?.aborted) {
+        cancelled = true;
+        logLine(hooks, `Run cancelled after ${processed}/${totalRecords} case(s)`);
+        break;
       }
 
-      if (caseItem.serialOnly) {
-        records.push(buildSkippedRecord(caseItem, 'Serial-only or non-UDP request frame'));
-        processed += 1;
-        console.log(makeProgressLine(processed, runCases.length, records[records.length - 1]));
+      const skip = skipReasonFor(caseItem);
+      if (skip) {
+        if (skip.excluded) {
+          logLine(hooks, `[SKIP] ${caseItem.setCode ?? caseItem.commandKey} ${caseItem.description} reason="${skip.reason}"`);
+        }
+        recordSkipped(caseItem, skip.reason);
         nextDelayMs = 0;
         continue;
       }
 
-      if (options.mode === 'suite') {
-        const setCode = normalizeCode(caseItem.setCode);
-        const exclusionReason = setCode ? suiteExclusions.get(setCode) : undefined;
-        if (exclusionReason) {
-          records.push(buildSkippedRecord(caseItem, exclusionReason));
-          processed += 1;
-          console.log(`[SKIP] ${caseItem.setCode ?? caseItem.commandKey} ${caseItem.description} reason="${exclusionReason}"`);
-          console.log(makeProgressLine(processed, runCases.length, records[records.length - 1]));
-          nextDelayMs = 0;
-          continue;
-        }
-      }
-
       const disruptivePromptMode =
         options.promptEach && (options.mode === 'suite' || options.mode === 'issues') && options.includePower;
 
@@ -2043,58 +3972,1253 @@ async function run(): Promise<void> {
       const promptDisruptiveOnly = disruptivePromptMode && caseItem.isPowerCommand && caseItem.isDisruptiveCommand;
 
       if (promptEveryCommand) {
-        await waitForEnter(`Ready to run ${caseItem.commandKey}. Set screen/device state as needed, then press Enter.`);
+        await promptOperator(caseItem, `Ready to run ${caseItem.commandKey}. Set screen/device state as needed, then press Enter.`);
       }
 
       if (promptDisruptiveOnly) {
-        await waitForEnter(`Manual stage: press Enter to execute disruptive command ${caseItem.commandKey}`);
+        await promptOperator(caseItem, `Manual stage: press Enter to execute disruptive command ${caseItem.commandKey}`);
       }
 
-      const record = await executeCase(socket, caseItem, options, bySetCode);
-      records.push(record);
-      processed += 1;
-      if (record.status === 'SKIPPED' && record.skipReason) {
-        console.log(`[SKIP] ${record.command} ${record.variant} reason="${record.skipReason}"`);
-      }
-      console.log(makeProgressLine(processed, runCases.length, record));
+      for (let attempt = 1; attempt <= options.repeat; attempt += 1) {
+        if (attempt > 1) {
+          if (nextDelayMs > 0) {
+            await sleep(nextDelayMs);
+          }
+          if (hooks.signal?.aborted) {
+            cancelled = true;
+            logLine(hooks, `Run cancelled after ${processed}/${totalRecords} case(s)`);
+            break;
+          }
+        }
 
-      nextDelayMs = rateIntervalMs;
-      if (caseItem.isModeChangeCommand) {
-        nextDelayMs = Math.max(nextDelayMs, options.settleModeMs);
-      } else if (caseItem.isSetCommand) {
-        nextDelayMs = Math.max(nextDelayMs, options.settleSetMs);
+        emitEvent(hooks, {
+          type: 'case-started',
+          index: processed + 1,
+          total: totalRecords,
+          commandKey: caseItem.commandKey,
+          category: caseItem.category,
+          description: caseItem.description
+        });
+        const caseTransport = caseItem.serialOnly && serialTransport ? serialTransport : transport;
+        const record = applyLatencyBudget(await executeCase(caseTransport, caseItem, options, truth.bySetCode, hooks), latencyBudgets);
+        if (options.repeat > 1) {
+          record.repeatIndex = attempt;
+        }
+        if (record.status === 'SKIPPED' && record.skipReason) {
+          logLine(hooks, `[SKIP] ${record.command} ${record.variant} reason="${record.skipReason}"`);
+        }
+        recordFinished(record);
+
+        nextDelayMs = rateIntervalMs;
+        if (caseItem.isModeChangeCommand) {
+          nextDelayMs = Math.max(nextDelayMs, options.settleModeMs);
+        } else if (caseItem.isSetCommand) {
+          nextDelayMs = Math.max(nextDelayMs, options.settleSetMs);
+        }
       }
     }
   } finally {
-    socket.close();
+    await serialTransport?.close();
+    await transport.close();
   }
 
   const finishedAt = new Date();
-  const artifacts = writeArtifacts(rootDir, options, startedAt, finishedAt, records);
+  const unsolicited = summarizeUnsolicitedFrames(records, rows);
+  const artifacts = writeArtifacts(rootDir, options, startedAt, finishedAt, records, unsolicited);
   const summary = buildSummary(records);
+  const latency = buildLatencyReport(records);
+  emitEvent(hooks, {
+    type: 'run-finished',
+    startedAt: startedAt.toISOString(),
+    finishedAt: finishedAt.toISOString(),
+    summary,
+    artifacts,
+    cancelled
+  });
 
-  console.log('');
-  console.log(
+  logLine(hooks, '');
+  logLine(
+    hooks,
     `Completed ${records.length} case(s): PASS=${summary.pass} FAIL=${summary.fail} NO_REPLY=${summary.noReply} SKIPPED=${summary.skipped}`
   );
-  console.log(`JSON: ${artifacts.jsonPath}`);
-  console.log(`CSV: ${artifacts.csvPath}`);
-  console.log(`HTML: ${artifacts.htmlPath}`);
-  console.log(`ISSUES JSON: ${artifacts.issuesJsonPath}`);
-  console.log(`ISSUES CSV: ${artifacts.issuesCsvPath}`);
-
+  if (summary.lateReplies > 0 || summary.unsolicitedFrames > 0) {
+    logLine(hooks, `Stale frames: late=${summary.lateReplies} unsolicited=${summary.unsolicitedFrames}`);
+  }
+  if (unsolicited.length > 0) {
+    logLine(hooks, `Unsolicited frames by code: ${formatUnsolicitedSummary(unsolicited)}`);
+  }
+  let flakiness: FlakinessReport | undefined;
+  if (options.repeat > 1) {
+    flakiness = buildFlakinessReport(records, options.repeat);
+    logLine(
+      hooks,
+      `Repeat x${options.repeat}: STABLE_PASS=${flakiness.stablePass} FLAKY=${flakiness.flaky} STABLE_FAIL=${flakiness.stableFail}`
+    );
+    for (const entry of flakiness.entries.filter(item => item.classification !== 'STABLE_PASS')) {
+      logLine(hooks, `  ${entry.classification} ${entry.key} ${entry.variant} passes=${entry.passes}/${entry.attempts}`);
+    }
+  }
+  logLine(hooks, `Latency ms: ${formatLatencyStats(latency.overall)}`);
+  if (latency.budgetWarnings > 0 || latency.budgetFailures > 0) {
+    logLine(hooks, `Latency budgets: warnings=${latency.budgetWarnings} failures=${latency.budgetFailures}`);
+  }
+  logLine(hooks, `JSON: ${artifacts.jsonPath}`);
+  logLine(hooks, `CSV: ${artifacts.csvPath}`);
+  logLine(hooks, `HTML: ${artifacts.htmlPath}`);
+  logLine(hooks, `ISSUES JSON: ${artifacts.issuesJsonPath}`);
+  logLine(hooks, `ISSUES CSV: ${artifacts.issuesCsvPath}`);
+  logLine(hooks, `LATENCY CSV: ${artifacts.latencyCsvPath}`);
+  if (artifacts.junitPath) {
+    logLine(hooks, `JUNIT: ${artifacts.junitPath}`);
+  }
+  if (artifacts.tapPath) {
+    logLine(hooks, `TAP: ${artifacts.tapPath}`);
+  }
+
   if (records.length === 1) {
     const record = records[0];
     if (record.meaning) {
-      console.log(`Meaning: ${record.meaning}`);
+      logLine(hooks, `Meaning: ${record.meaning}`);
     }
     if (record.parsed) {
-      console.log(`Parsed: ${JSON.stringify(record.parsed)}`);
+      logLine(hooks, `Parsed: ${JSON.stringify(record.parsed)}`);
+    }
+  }
+
+  let golden: GoldenComparison | undefined;
+  if (goldenBaseline) {
+    golden = compareWithGolden(goldenBaseline.payload, records, goldenBaseline.path, options.mode === 'suite' && !cancelled);
+    logLine(hooks, '');
+    for (const line of formatGoldenReport(golden)) {
+      logLine(hooks, line);
+    }
+  }
+
+  return { startedAt, finishedAt, records, summary, artifacts, cancelled, latency, flakiness, golden };
+}
+
+export function listCommandCatalog(rootDir: string = defaultRootDir()): CommandCatalogEntry[] {
+  const truth = indexTruth(loadTruth(rootDir));
+  const entries: CommandCatalogEntry[] = [];
+  const seenNumeric = new Set<string>();
+  for (const row of truth.rows) {
+    const setCode = normalizeCode(row.setCommandCode);
+    const numeric = setCode != null && truth.numericSpecs.has(setCode);
+    if (numeric) {
+      if (seenNumeric.has(setCode)) continue;
+      seenNumeric.add(setCode);
+    }
+    entries.push({
+      selector: numeric ? `0x${setCode}` : row.commandKey,
+      category: row.category,
+      description: row.description || row.remark || row.commandKey,
+      setCode,
+      numeric,
+      serialOnly: isSerialOnly(row, parseHexBytes(row.requestHex)),
+      power: isPowerCommand(row)
+    });
+  }
+  return entries;
+}
+
+function describeFrame(txHex: string | null, rxHex: string | null, latencyMs: number | null): FrameDecode | null {
+  if (!txHex) return null;
+  const decoded = rxHex ? decodeReply(parseHexBytes(rxHex)) : null;
+  const ackStatus = parseAckStatus(decoded);
+  return {
+    txHex,
+    rxHex,
+    latencyMs,
+    replyCode: decoded?.replyCode ?? null,
+    replyCodeIndex: decoded?.replyCodeIndex ?? null,
+    payloadMarkerIndex: decoded?.payload?.markerIndex ?? null,
+    payloadHex: decoded?.payload ? bytesToHex(decoded.payload.data) : null,
+    checksumOk: decoded?.checksumOk ?? null,
+    decodeError: decoded?.error?.message ?? null,
+    ackStatus,
+    ackMeaning: ackMeaning(ackStatus)
+  };
+}
+
+// One-off exchange for bench debugging: same case building and validation as --single --debug-hex,
+// but no artifacts are written and the debug lines are returned instead of printed.
+export async function sendConsoleCommand(options: CliOptions, rootDir: string = defaultRootDir()): Promise<ConsoleExchange> {
+  if (!options.singleSelector) {
+    throw new Error('singleSelector is required');
+  }
+  const truth = indexTruth(loadTruth(rootDir));
+  const caseItem = buildSingleCase(truth.byKey, truth.bySetCode, truth.numericSpecs, options.singleSelector, options.value);
+  const log: string[] = [];
+  const hooks: RunHooks = { log: line => log.push(line), warn: line => log.push(line) };
+
+  const budgets = loadLatencyBudgets(rootDir, options.profile, hooks);
+  let record: CertifyRecord;
+  const serialTransport = caseItem.serialOnly ? createRunSerialTransport(options) : null;
+  if (caseItem.serialOnly && !serialTransport) {
+    record = buildSkippedRecord(caseItem, 'Serial-only or non-UDP request frame (add --serial-port)');
+  } else {
+    const transport = serialTransport ?? createRunTransport(options);
+    try {
+      await transport.open();
+      record = applyLatencyBudget(await executeCase(transport, caseItem, { ...options, debugHex: true }, truth.bySetCode, hooks), budgets);
+    } finally {
+      await transport.close();
+    }
+  }
+
+  return {
+    record,
+    primary: describeFrame(record.txHex, record.rxHex, record.latencyMs),
+    query: describeFrame(record.queryTxHex, record.queryRxHex, record.queryLatencyMs),
+    log
+  };
+}
+
+// Cumulative run time only grows while the panel is on, so a shortfall against wall-clock time means it was off.
+const SOAK_UPTIME_QUERY = '0xC33D';
+const SOAK_REBOOT_SLACK_MINUTES = 2;
+
+function failureRate(summary: RunSummary): number {
+  const executed = summary.pass + summary.fail + summary.noReply;
+  return executed === 0 ? 0 : (summary.fail + summary.noReply) / executed;
+}
+
+async function queryUptimeMinutes(options: CliOptions, rootDir: string): Promise<number | null> {
+  const exchange = await sendConsoleCommand(
+    { ...options, mode: 'single', singleSelector: SOAK_UPTIME_QUERY, value: undefined, golden: undefined, soak: undefined },
+    rootDir
+  );
+  const minutes = exchange.record.parsed?.minutes;
+  return typeof minutes === 'number' ? minutes : null;
+}
+
+function checkUptime(previous: { minutes: number; at: number } | null, minutes: number | null, at: number): UptimeCheck {
+  if (minutes == null) return 'NO_REPLY';
+  if (!previous) return 'BASELINE';
+  if (minutes < previous.minutes) return 'REGRESSED';
+  const elapsedMinutes = (at - previous.at) / 60_000;
+  if (minutes - previous.minutes < elapsedMinutes - SOAK_REBOOT_SLACK_MINUTES) return 'REBOOT_SUSPECTED';
+  return 'MONOTONIC';
+}
+
+export function writeSoakArtifacts(rootDir: string, report: SoakReport): { jsonPath: string; csvPath: string } {
+  const dataDir = path.resolve(rootDir, 'data');
+  fs.mkdirSync(dataDir, { recursive: true });
+  const stamp = toFileStamp(new Date(report.startedAt));
+  const jsonPath = path.resolve(dataDir, `soak-${stamp}.json`);
+  const csvPath = path.resolve(dataDir, `soak-${stamp}.csv`);
+  fs.writeFileSync(jsonPath, JSON.stringify(report, null, 2), 'utf8');
+
+  const lines = ['iteration,startedAt,finishedAt,pass,fail,noReply,skipped,failureRate,uptimeMinutes,uptimeCheck,artifact'];
+  for (const item of report.iterations) {
+    lines.push(
+      [
+        item.index,
+        item.startedAt,
+        item.finishedAt,
+        item.summary.pass,
+        item.summary.fail,
+        item.summary.noReply,
+        item.summary.skipped,
+        item.failureRate.toFixed(4),
+        item.uptimeMinutes ?? '',
+        item.uptimeCheck,
+        path.basename(item.jsonPath)
+      ].join(',')
+    );
+  }
+  fs.writeFileSync(csvPath, lines.join('\n'), 'utf8');
+  return { jsonPath, csvPath };
+}
+
+export async function runSoak(options: CliOptions, hooks: RunHooks = {}, rootDir: string = defaultRootDir()): Promise<SoakResult> {
+  const limit = options.soak;
+  if (!limit) {
+    throw new Error('runSoak requires options.soak');
+  }
+  const iterationOptions: CliOptions = { ...options, soak: undefined };
+  const startedAt = new Date();
+  const deadline = limit.durationMs != null ? startedAt.getTime() + limit.durationMs : null;
+  const report: SoakReport = {
+    startedAt: startedAt.toISOString(),
+    finishedAt: startedAt.toISOString(),
+    options,
+    iterations: [],
+    totals: { pass: 0, fail: 0, noReply: 0, skipped: 0, lateReplies: 0, unsolicitedFrames: 0 },
+    failureRate: 0,
+    uptimeAnomalies: 0,
+    cancelled: false
+  };
+
+  const limitText = limit.iterations != null ? `${limit.iterations} iteration(s)` : `${Math.round(limit.durationMs! / 1000)}s`;
+  logLine(hooks, `Soak: ${options.mode} for ${limitText}`);
+
+  let previousUptime: { minutes: number; at: number } | null = null;
+  const firstUptime = await queryUptimeMinutes(iterationOptions, rootDir);
+  if (firstUptime != null) {
+    previousUptime = { minutes: firstUptime, at: Date.now() };
+    logLine(hooks, `Soak: starting uptime ${firstUptime} min`);
+  } else {
+    warnLine(hooks, `WARNING: Soak: no reply to uptime query ${SOAK_UPTIME_QUERY} before the first iteration`);
+  }
+
+  for (let index = 1; ; index += 1) {
+    if (limit.iterations != null && index > limit.iterations) break;
+    if (deadline != null && index > 1 && Date.now() >= deadline) break;
+    if (hooks.signal?.aborted) {
+      report.cancelled = true;
+      break;
+    }
+
+    const run = await runCertification(iterationOptions, hooks, rootDir);
+    const uptimeMinutes = await queryUptimeMinutes(iterationOptions, rootDir);
+    const checkedAt = Date.now();
+    const uptimeCheck = checkUptime(previousUptime, uptimeMinutes, checkedAt);
+    const previousMinutes = previousUptime?.minutes ?? null;
+    if (uptimeMinutes != null) {
+      previousUptime = { minutes: uptimeMinutes, at: checkedAt };
+    }
+
+    const iteration: SoakIteration = {
+      index,
+      startedAt: run.startedAt.toISOString(),
+      finishedAt: run.finishedAt.toISOString(),
+      summary: run.summary,
+      failureRate: failureRate(run.summary),
+      uptimeMinutes,
+      uptimeCheck,
+      jsonPath: run.artifacts.jsonPath
+    };
+    report.iterations.push(iteration);
+    report.totals.pass += run.summary.pass;
+    report.totals.fail += run.summary.fail;
+    report.totals.noReply += run.summary.noReply;
+    report.totals.skipped += run.summary.skipped;
+    report.totals.lateReplies += run.summary.lateReplies;
+    report.totals.unsolicitedFrames += run.summary.unsolicitedFrames;
+    report.failureRate = failureRate(report.totals);
+    if (uptimeCheck === 'REGRESSED' || uptimeCheck === 'REBOOT_SUSPECTED' || uptimeCheck === 'NO_REPLY') {
+      report.uptimeAnomalies += 1;
+    }
+    report.finishedAt = new Date().toISOString();
+
+    // Rewrite the aggregate after every iteration so an interrupted soak still leaves a usable report.
+    writeSoakArtifacts(rootDir, report);
+
+    logLine(
+      hooks,
+      `[SOAK ${index}] PASS=${run.summary.pass} FAIL=${run.summary.fail} NO_REPLY=${run.summary.noReply} SKIPPED=${run.summary.skipped} failureRate=${(iteration.failureRate * 100).toFixed(2)}% uptime=${uptimeMinutes ?? '-'}min ${uptimeCheck}`
+    );
+    if (uptimeCheck === 'REGRESSED' || uptimeCheck === 'REBOOT_SUSPECTED') {
+      warnLine(hooks, `WARNING: Soak iteration ${index}: uptime ${uptimeCheck} (${previousMinutes ?? '-'} -> ${uptimeMinutes} min)`);
+    }
+    if (run.cancelled) {
+      report.cancelled = true;
+      break;
+    }
+  }
+
+  report.finishedAt = new Date().toISOString();
+  const result: SoakResult = { report, ...writeSoakArtifacts(rootDir, report) };
+  logLine(hooks, '');
+  logLine(
+    hooks,
+    `Soak completed ${report.iterations.length} iteration(s): PASS=${report.totals.pass} FAIL=${report.totals.fail} NO_REPLY=${report.totals.noReply} SKIPPED=${report.totals.skipped} failureRate=${(report.failureRate * 100).toFixed(2)}% uptimeAnomalies=${report.uptimeAnomalies}`
+  );
+  logLine(hooks, `SOAK JSON: ${result.jsonPath}`);
+  logLine(hooks, `SOAK CSV: ${result.csvPath}`);
+  return result;
+}
+
+// When a case ran more than once on a device its worst status counts; ties in the fleet vote go to the earlier entry.
+const FLEET_STATUS_ORDER: ResultStatus[] = ['PASS', 'SKIPPED', 'NO_REPLY', 'FAIL'];
+const FLEET_DEVIATIONS_SHOWN = 10;
+
+export function loadFleetInventory(rootDir: string, file: string): { path: string; devices: FleetDevice[] } {
+  const inventoryPath = resolveRunFile(rootDir, file);
+  if (!fs.existsSync(inventoryPath)) {
+    throw new Error(`Inventory file not found: ${inventoryPath}`);
+  }
+  const parsed = JSON.parse(fs.readFileSync(inventoryPath, 'utf8')) as { devices?: unknown };
+  if (!Array.isArray(parsed.devices) || parsed.devices.length === 0) {
+    throw new Error(`Invalid inventory ${inventoryPath}: devices array missing or empty`);
+  }
+
+  const names = new Set<string>();
+  const devices = parsed.devices.map((item, index): FleetDevice => {
+    const raw = (item ?? {}) as Record<string, unknown>;
+    const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+    if (!name) throw new Error(`Invalid inventory ${inventoryPath}: device ${index + 1} has no name`);
+    if (names.has(name)) throw new Error(`Invalid inventory ${inventoryPath}: duplicate device name "${name}"`);
+    names.add(name);
+    if (typeof raw.target !== 'string') {
+      throw new Error(`Invalid inventory ${inventoryPath}: device "${name}" needs a target (host:port)`);
+    }
+    const { host, port } = parseTarget(raw.target);
+    const profile = raw.profile == null ? null : String(raw.profile);
+    if (profile != null && profile !== 'exview-aio' && profile !== 'generic') {
+      throw new Error(`Invalid inventory ${inventoryPath}: device "${name}" has profile ${profile} (supported: exview-aio, generic)`);
+    }
+    return {
+      name,
+      host,
+      port,
+      profile,
+      location: raw.location == null ? null : String(raw.location),
+      localPort: raw.localPort == null ? null : requireNumber(`localPort of "${name}"`, raw.localPort, 0, 1, 65535)
+    };
+  });
+  return { path: inventoryPath, devices };
+}
+
+function statusByRecordKey(records: CertifyRecord[]): Map<string, ResultStatus> {
+  const statuses = new Map<string, ResultStatus>();
+  for (const record of records) {
+    const key = recordMatchKey(record);
+    const previous = statuses.get(key);
+    if (!previous || FLEET_STATUS_ORDER.indexOf(record.status) > FLEET_STATUS_ORDER.indexOf(previous)) {
+      statuses.set(key, record.status);
+    }
+  }
+  return statuses;
+}
+
+// A device deviates on a case when its status differs from the most common status among the devices that ran it.
+function findFleetDeviations(statusByDevice: Map<string, Map<string, ResultStatus>>): Map<string, FleetDeviation[]> {
+  const statusesByKey = new Map<string, ResultStatus[]>();
+  for (const statuses of statusByDevice.values()) {
+    for (const [key, status] of statuses) {
+      const list = statusesByKey.get(key) ?? [];
+      list.push(status);
+      statusesByKey.set(key, list);
+    }
+  }
+
+  const fleetStatusByKey = new Map<string, ResultStatus>();
+  for (const [key, statuses] of statusesByKey) {
+    if (statuses.length < 2) continue;
+    let fleetStatus = statuses[0];
+    let bestCount = 0;
+    for (const candidate of FLEET_STATUS_ORDER) {
+      const count = statuses.filter(status => status === candidate).length;
+      if (count > bestCount) {
+        fleetStatus = candidate;
+        bestCount = count;
+      }
+    }
+    fleetStatusByKey.set(key, fleetStatus);
+  }
+
+  const deviations = new Map<string, FleetDeviation[]>();
+  for (const [name, statuses] of statusByDevice) {
+    const list: FleetDeviation[] = [];
+    for (const [key, status] of statuses) {
+      const fleetStatus = fleetStatusByKey.get(key);
+      if (fleetStatus && fleetStatus !== status) list.push({ key, status, fleetStatus });
     }
+    deviations.set(name, list);
   }
+  return deviations;
+}
+
+function formatFleetTable(report: FleetReport): string[] {
+  const header = ['Device', 'Location', 'Target', 'PASS', 'FAIL', 'NO_REPLY', 'SKIPPED', 'Deviations', 'Result'];
+  const rows = report.devices.map(item => [
+    item.device.name,
+    item.device.location ?? '-',
+    `${item.device.host}:${item.device.port}`,
+    String(item.summary?.pass ?? '-'),
+    String(item.summary?.fail ?? '-'),
+    String(item.summary?.noReply ?? '-'),
+    String(item.summary?.skipped ?? '-'),
+    item.summary ? String(item.deviations.length) : '-',
+    fleetDeviceResultText(item)
+  ]);
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column].length)));
+  // Text columns left-aligned, counts right-aligned.
+  const format = (row: string[]): string =>
+    row
+      .map((cell, column) => (column < 3 || column === row.length - 1 ? cell.padEnd(widths[column]) : cell.padStart(widths[column])))
+      .join('  ')
+      .trimEnd();
+  return [format(header), ...rows.map(format)];
 }
 
-run().catch(error => {
-  console.error(error instanceof Error ? error.stack ?? error.message : String(error));
-  process.exitCode = 1;
-});
+function fleetDeviceResultText(item: FleetDeviceResult): string {
+  if (item.error) return `ERROR ${item.error}`;
+  if (!item.summary) return 'NOT RUN';
+  if (item.cancelled) return 'CANCELLED';
+  if (item.golden && !item.golden.ok) return `GOLDEN ${item.golden.divergences} divergence(s)`;
+  return item.deviations.length > 0 ? 'DEVIATES' : 'OK';
+}
+
+export function writeFleetArtifacts(rootDir: string, report: FleetReport): { jsonPath: string; csvPath: string } {
+  const dataDir = path.resolve(rootDir, 'data');
+  fs.mkdirSync(dataDir, { recursive: true });
+  const stamp = toFileStamp(new Date(report.startedAt));
+  const jsonPath = path.resolve(dataDir, `fleet-${stamp}.json`);
+  const csvPath = path.resolve(dataDir, `fleet-${stamp}.csv`);
+  fs.writeFileSync(jsonPath, JSON.stringify(report, null, 2), 'utf8');
+
+  const lines = ['device,location,target,profile,localPort,pass,fail,noReply,skipped,deviations,result,artifact'];
+  for (const item of report.devices) {
+    lines.push(
+      [
+        sanitizeForCsv(item.device.name),
+        sanitizeForCsv(item.device.location ?? ''),
+        `${item.device.host}:${item.device.port}`,
+        item.device.profile ?? report.options.profile,
+        item.localPort,
+        item.summary?.pass ?? '',
+        item.summary?.fail ?? '',
+        item.summary?.noReply ?? '',
+        item.summary?.skipped ?? '',
+        item.summary ? item.deviations.length : '',
+        sanitizeForCsv(fleetDeviceResultText(item)),
+        item.jsonPath ? path.basename(item.jsonPath) : ''
+      ].join(',')
+    );
+  }
+  fs.writeFileSync(csvPath, lines.join('\n'), 'utf8');
+  return { jsonPath, csvPath };
+}
+
+// Each worker slot owns one local port (--local-port + slot) unless the inventory pins one, so concurrent runs never
+// share a socket. Console lines are prefixed with the device name.
+export async function runFleet(options: CliOptions, hooks: RunHooks = {}, rootDir: string = defaultRootDir()): Promise<FleetResult> {
+  if (!options.fleet) {
+    throw new Error('runFleet requires options.fleet');
+  }
+  const inventory = loadFleetInventory(rootDir, options.fleet.inventory);
+  const concurrency = Math.min(options.fleet.concurrency, inventory.devices.length);
+  const startedAt = new Date();
+  const report: FleetReport = {
+    startedAt: startedAt.toISOString(),
+    finishedAt: startedAt.toISOString(),
+    inventory: inventory.path,
+    options,
+    devices: inventory.devices.map(device => ({
+      device,
+      localPort: device.localPort ?? options.localPort,
+      startedAt: null,
+      finishedAt: null,
+      summary: null,
+      golden: null,
+      error: null,
+      cancelled: false,
+      deviations: [],
+      jsonPath: null
+    })),
+    totals: { pass: 0, fail: 0, noReply: 0, skipped: 0, lateReplies: 0, unsolicitedFrames: 0 },
+    cancelled: false
+  };
+  logLine(hooks, `Fleet: ${options.mode} on ${inventory.devices.length} device(s) from ${inventory.path}, concurrency ${concurrency}`);
+
+  // One local port per worker slot from --local-port upwards, stepping over ports pinned in the inventory so a
+  // slot never binds a port a pinned device may hold at the same time.
+  const pinnedPorts = new Set(inventory.devices.map(device => device.localPort).filter((port): port is number => port != null));
+  const slotPorts: number[] = [];
+  for (let port = options.localPort; slotPorts.length < concurrency; port += 1) {
+    if (!pinnedPorts.has(port)) slotPorts.push(port);
+  }
+
+  const statusByDevice = new Map<string, Map<string, ResultStatus>>();
+  const runDevice = async (item: FleetDeviceResult, slot: number): Promise<void> => {
+    const { device } = item;
+    item.localPort = device.localPort ?? slotPorts[slot];
+    const prefix = `[${device.name}]`;
+    const deviceHooks: RunHooks = {
+      log: line => logLine(hooks, line ? `${prefix} ${line}` : line),
+      warn: line => warnLine(hooks, `${prefix} ${line}`),
+      prompt: hooks.prompt,
+      signal: hooks.signal
+    };
+    const deviceOptions: CliOptions = {
+      ...options,
+      fleet: undefined,
+      deviceName: device.name,
+      targetHost: device.host,
+      targetPort: device.port,
+      profile: device.profile ?? options.profile,
+      localPort: item.localPort
+    };
+    try {
+      const run = await runCertification(deviceOptions, deviceHooks, rootDir);
+      item.startedAt = run.startedAt.toISOString();
+      item.finishedAt = run.finishedAt.toISOString();
+      item.summary = run.summary;
+      item.cancelled = run.cancelled;
+      item.jsonPath = run.artifacts.jsonPath;
+      item.golden = run.golden ? { ok: run.golden.ok, divergences: run.golden.divergences.length } : null;
+      statusByDevice.set(device.name, statusByRecordKey(run.records));
+    } catch (error) {
+      item.error = error instanceof Error ? error.message : String(error);
+      warnLine(hooks, `WARNING: Fleet device ${device.name} (${device.host}:${device.port}) failed: ${item.error}`);
+    }
+  };
+
+  let nextIndex = 0;
+  const worker = async (slot: number): Promise<void> => {
+    while (nextIndex < report.devices.length && !hooks.signal?.aborted) {
+      const item = report.devices[nextIndex];
+      nextIndex += 1;
+      await runDevice(item, slot);
+    }
+  };
+  await Promise.all(Array.from({ length: concurrency }, (_, slot) => worker(slot)));
+
+  const deviations = findFleetDeviations(statusByDevice);
+  for (const item of report.devices) {
+    item.deviations = deviations.get(item.device.name) ?? [];
+    if (!item.summary) continue;
+    report.totals.pass += item.summary.pass;
+    report.totals.fail += item.summary.fail;
+    report.totals.noReply += item.summary.noReply;
+    report.totals.skipped += item.summary.skipped;
+    report.totals.lateReplies += item.summary.lateReplies;
+    report.totals.unsolicitedFrames += item.summary.unsolicitedFrames;
+  }
+  report.cancelled = hooks.signal?.aborted ?? false;
+  report.finishedAt = new Date().toISOString();
+  const result: FleetResult = { report, ...writeFleetArtifacts(rootDir, report) };
+
+  logLine(hooks, '');
+  logLine(hooks, 'Fleet summary:');
+  for (const line of formatFleetTable(report)) {
+    logLine(hooks, `  ${line}`);
+  }
+  for (const item of report.devices) {
+    if (item.deviations.length === 0) continue;
+    logLine(hooks, `Deviations on ${item.device.name}:`);
+    for (const deviation of item.deviations.slice(0, FLEET_DEVIATIONS_SHOWN)) {
+      logLine(hooks, `  ${deviation.key} ${deviation.status} (fleet: ${deviation.fleetStatus})`);
+    }
+    if (item.deviations.length > FLEET_DEVIATIONS_SHOWN) {
+      logLine(hooks, `  ... ${item.deviations.length - FLEET_DEVIATIONS_SHOWN} more in ${path.basename(result.jsonPath)}`);
+    }
+  }
+  const errors = report.devices.filter(item => item.error).length;
+  const deviating = report.devices.filter(item => item.deviations.length > 0).length;
+  logLine(
+    hooks,
+    `Fleet completed ${report.devices.length} device(s): PASS=${report.totals.pass} FAIL=${report.totals.fail} NO_REPLY=${report.totals.noReply} SKIPPED=${report.totals.skipped} errors=${errors} deviating=${deviating}`
+  );
+  logLine(hooks, `FLEET JSON: ${result.jsonPath}`);
+  logLine(hooks, `FLEET CSV: ${result.csvPath}`);
+  return result;
+}
+
+function indexByReplyCode(rows: TruthCommandRow[]): Map<string, TruthCommandRow[]> {
+  const byReplyCode = new Map<string, TruthCommandRow[]>();
+  for (const row of rows) {
+    const code = normalizeCode(row.replyCommandCode);
+    if (!code) continue;
+    const list = byReplyCode.get(code) ?? [];
+    list.push(row);
+    byReplyCode.set(code, list);
+  }
+  return byReplyCode;
+}
+
+function categoryForReplyCode(byReplyCode: Map<string, TruthCommandRow[]>, replyCode: string | null): string | null {
+  const code = normalizeCode(replyCode);
+  return code ? byReplyCode.get(code)?.[0]?.category ?? null : null;
+}
+
+export function captureFrame(
+  bytes: number[],
+  rinfo: { address: string; port: number },
+  options: CliOptions,
+  byReplyCode: Map<string, TruthCommandRow[]>
+): CapturedFrame {
+  const decoded = decodeReply(bytes);
+  const payload = decoded.payload;
+  const ackStatus = parseAckStatus(decoded);
+  const code = normalizeCode(decoded.replyCode);
+  return {
+    time: new Date().toISOString(),
+    from: `${rinfo.address}:${rinfo.port}`,
+    fromTarget: rinfo.address === options.targetHost && rinfo.port === options.targetPort,
+    rxHex: bytesToHex(bytes),
+    replyCode: toCode(code),
+    category: categoryForReplyCode(byReplyCode, code),
+    commands: code ? [...new Set((byReplyCode.get(code) ?? []).map(row => toCode(row.setCommandCode) ?? row.commandKey))] : [],
+    payloadHex: payload ? bytesToHex(payload.data) : null,
+    checksumOk: decoded.checksumOk,
+    decodeError: decoded.error?.message ?? null,
+    ackStatus,
+    ackMeaning: ackStatus == null ? null : ackMeaning(ackStatus)
+  };
+}
+
+function countByReplyCode(frames: Array<{ replyCode: string | null; category: string | null }>): UnsolicitedFrameSummary[] {
+  const counts = new Map<string, UnsolicitedFrameSummary>();
+  for (const frame of frames) {
+    const key = frame.replyCode ?? 'unknown';
+    const entry = counts.get(key) ?? { replyCode: frame.replyCode, category: frame.category, count: 0 };
+    entry.count += 1;
+    counts.set(key, entry);
+  }
+  return [...counts.values()].sort((a, b) => b.count - a.count);
+}
+
+export function summarizeUnsolicitedFrames(records: CertifyRecord[], rows: TruthCommandRow[]): UnsolicitedFrameSummary[] {
+  const byReplyCode = indexByReplyCode(rows);
+  return countByReplyCode(
+    records
+      .flatMap(record => record.staleFrames ?? [])
+      .filter(frame => frame.kind === 'UNSOLICITED')
+      .map(frame => ({ replyCode: frame.replyCode, category: categoryForReplyCode(byReplyCode, frame.replyCode) }))
+  );
+}
+
+function formatUnsolicitedSummary(entries: UnsolicitedFrameSummary[]): string {
+  return entries
+    .map(entry => `${entry.replyCode ?? 'unknown'}${entry.category ? ` (${entry.category})` : ''} x${entry.count}`)
+    .join(', ');
+}
+
+export async function runListen(options: CliOptions, hooks: RunHooks = {}, rootDir: string = defaultRootDir()): Promise<ListenResult> {
+  const limit = options.listen;
+  if (!limit) {
+    throw new Error('runListen requires options.listen');
+  }
+  const byReplyCode = indexByReplyCode(loadTruth(rootDir));
+  const startedAt = new Date();
+  const dataDir = path.resolve(rootDir, 'data');
+  fs.mkdirSync(dataDir, { recursive: true });
+  const capturePath = path.resolve(dataDir, `listen-${toFileStamp(startedAt)}.jsonl`);
+  fs.writeFileSync(capturePath, '', 'utf8');
+
+  const socket = dgram.createSocket('udp4');
+  const bindInfo = await bindSocket(socket, options.localPort);
+  logLine(hooks, `Listening on UDP ${bindInfo.address}:${bindInfo.port} (nothing is sent)`);
+  logLine(hooks, limit.durationMs == null ? 'Press Ctrl+C to stop.' : `Stopping after ${Math.round(limit.durationMs / 1000)}s.`);
+
+  const frames: CapturedFrame[] = [];
+  socket.on('message', (buffer, rinfo) => {
+    const frame = captureFrame([...buffer.values()], rinfo, options, byReplyCode);
+    frames.push(frame);
+    // Append per frame so a capture that is killed rather than stopped is still complete.
+    fs.appendFileSync(capturePath, JSON.stringify(frame) + '\n', 'utf8');
+    const label = frame.category ? ` (${frame.category})` : '';
+    const ack = frame.ackMeaning ? ` ack=${frame.ackMeaning}` : '';
+    logLine(hooks, `[RX ${frame.from}] ${frame.replyCode ?? 'unknown'}${label}${ack} ${frame.rxHex}`);
+  });
+
+  try {
+    await new Promise<void>(resolve => {
+      const timer = limit.durationMs == null ? undefined : setTimeout(resolve, limit.durationMs);
+      if (hooks.signal?.aborted) resolve();
+      hooks.signal?.addEventListener(
+        'abort',
+        () => {
+          clearTimeout(timer);
+          resolve();
+        },
+        { once: true }
+      );
+    });
+  } finally {
+    socket.close();
+  }
+
+  const byCode = countByReplyCode(frames);
+  const finishedAt = new Date();
+
+  logLine(hooks, '');
+  logLine(hooks, `Captured ${frames.length} frame(s)${byCode.length > 0 ? `: ${formatUnsolicitedSummary(byCode)}` : ''}`);
+  logLine(hooks, `CAPTURE: ${capturePath}`);
+  return { startedAt, finishedAt, capturePath, frames: frames.length, byCode };
+}
+
+const DISCOVER_STATUS_CODE = 'C001';
+const DISCOVER_REPLY_CODE = 'C002';
+// Larger ranges are almost always a typo; a /20 is already 4094 probes.
+const DISCOVER_MIN_PREFIX = 20;
+const DISCOVER_PROBE_INTERVAL_MS = 5;
+const DEFAULT_DISCOVER_TIMEOUT_MS = 2000;
+
+export function parseDiscoverOptions(argv: string[]): DiscoverOptions {
+  let range: string | null = null;
+  let port = DEFAULT_OPTIONS.targetPort;
+  let localPort = DEFAULT_OPTIONS.localPort;
+  let timeoutMs = DEFAULT_DISCOVER_TIMEOUT_MS;
+  let profile: ProfileName = DEFAULT_OPTIONS.profile;
+  let output: string | null = null;
+
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index];
+    if (index === 0 && arg === 'discover') continue;
+
+    if (arg === '--port' || arg === '--local-port') {
+      const next = argv[index + 1];
+      if (!next) throw new Error(`${arg} requires a port`);
+      index += 1;
+      const numeric = Number(next);
+      if (!Number.isInteger(numeric) || numeric < 1 || numeric > 65535) {
+        throw new Error(`Invalid ${arg}: ${next}`);
+      }
+      if (arg === '--port') port = numeric;
+      else localPort = numeric;
+      continue;
+    }
+
+    if (arg === '--timeout') {
+      const next = argv[index + 1];
+      if (!next) throw new Error('--timeout requires milliseconds');
+      index += 1;
+      const numeric = Number(next);
+      if (!Number.isFinite(numeric) || numeric <= 0) {
+        throw new Error(`Invalid --timeout: ${next}`);
+      }
+      timeoutMs = numeric;
+      continue;
+    }
+
+    if (arg === '--profile') {
+      const next = argv[index + 1];
+      if (!next) throw new Error('--profile requires a name');
+      index += 1;
+      if (next !== 'exview-aio' && next !== 'generic') {
+        throw new Error(`Invalid --profile: ${next} (supported: exview-aio, generic)`);
+      }
+      profile = next;
+      continue;
+    }
+
+    if (arg === '--out') {
+      const next = argv[index + 1];
+      if (!next) throw new Error('--out requires a file path');
+      index += 1;
+      output = next;
+      continue;
+    }
+
+    if (arg.startsWith('--')) {
+      throw new Error(`Unknown argument for discover: ${arg}`);
+    }
+    if (range) {
+      throw new Error('discover takes one range (CIDR such as 192.168.0.0/24, or an address such as 192.168.0.255)');
+    }
+    range = arg;
+  }
+
+  if (!range) {
+    throw new Error('discover requires a range (CIDR such as 192.168.0.0/24, or a broadcast address such as 192.168.0.255)');
+  }
+  expandDiscoverRange(range);
+  return { range, port, localPort, timeoutMs, profile, output };
+}
+
+function parseIpv4(text: string): number | null {
+  const parts = text.split('.');
+  if (parts.length !== 4) return null;
+  let value = 0;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return null;
+    value = value * 256 + Number(part);
+  }
+  return value;
+}
+
+function formatIpv4(value: number): string {
+  return [24, 16, 8, 0].map(shift => Math.floor(value / 2 ** shift) % 256).join('.');
+}
+
+// A CIDR is probed host by host (network and broadcast addresses left out below /31); a single address is probed
+// once with broadcast enabled, so 192.168.0.255 or 255.255.255.255 reach every display on the segment.
+function expandDiscoverRange(range: string): { hosts: string[]; broadcast: boolean } {
+  const [addressText, prefixText] = range.split('/');
+  const address = parseIpv4(addressText);
+  if (address == null) {
+    throw new Error(`Invalid discover range: ${range} (expected an IPv4 address or CIDR)`);
+  }
+  if (prefixText == null) {
+    return { hosts: [addressText], broadcast: true };
+  }
+  const prefix = Number(prefixText);
+  if (!Number.isInteger(prefix) || prefix < DISCOVER_MIN_PREFIX || prefix > 32) {
+    throw new Error(`Invalid discover range: ${range} (prefix must be /${DISCOVER_MIN_PREFIX} to /32)`);
+  }
+  const size = 2 ** (32 - prefix);
+  const network = address - (address % size);
+  const first = prefix <= 30 ? network + 1 : network;
+  const last = prefix <= 30 ? network + size - 2 : network + size - 1;
+  const hosts: string[] = [];
+  for (let value = first; value <= last; value += 1) {
+    hosts.push(formatIpv4(value));
+  }
+  return { hosts, broadcast: false };
+}
+
+// Status names come from the truth rows of the status request (idle, busy, device exception).
+function deviceStatusLabels(rows: TruthCommandRow[]): Map<number, string> {
+  const labels = new Map<number, string>();
+  for (const row of rows) {
+    if (normalizeCode(row.setCommandCode) !== DISCOVER_STATUS_CODE || !row.replyHex) continue;
+    const status = parseAckStatus(decodeReply(parseHexBytes(row.replyHex)));
+    if (status != null && !labels.has(status)) labels.set(status, row.description);
+  }
+  return labels;
+}
+
+function formatDiscoverTable(devices: DiscoveredDevice[]): string[] {
+  const header = ['Address', 'Latency', 'Status'];
+  const rows = devices.map(device => [device.target, `${device.latencyMs} ms`, device.status ?? '-']);
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column].length)));
+  const format = (row: string[]): string => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+  return [format(header), ...rows.map(format)];
+}
+
+export async function runDiscover(options: DiscoverOptions, hooks: RunHooks = {}, rootDir: string = defaultRootDir()): Promise<DiscoverResult> {
+  const rows = loadTruth(rootDir);
+  const statusRow = rows.find(row => normalizeCode(row.setCommandCode) === DISCOVER_STATUS_CODE);
+  if (!statusRow) {
+    throw new Error(`Truth set has no 0x${DISCOVER_STATUS_CODE} status request`);
+  }
+  const probe = Buffer.from(parseHexBytes(statusRow.requestHex));
+  const statusLabels = deviceStatusLabels(rows);
+  const { hosts, broadcast } = expandDiscoverRange(options.range);
+  const startedAt = new Date();
+
+  const socket = dgram.createSocket('udp4');
+  const bindInfo = await bindSocket(socket, options.localPort);
+  socket.on('error', error => warnLine(hooks, `WARNING: Discover socket error: ${error.message}`));
+  socket.setBroadcast(true);
+  logLine(hooks, `Bound UDP local endpoint: ${bindInfo.address}:${bindInfo.port}`);
+  logLine(
+    hooks,
+    `Discover: 0x${DISCOVER_STATUS_CODE} to ${broadcast ? `${options.range} (broadcast)` : `${hosts.length} host(s) in ${options.range}`} port ${options.port}`
+  );
+
+  const sentAt = new Map<string, number>();
+  const byAddress = new Map<string, DiscoveredDevice>();
+  let ignored = 0;
+  socket.on('message', (buffer, rinfo) => {
+    const receivedAt = Date.now();
+    const rxBytes = [...buffer.values()];
+    const decoded = decodeReply(rxBytes);
+    if (rinfo.port !== options.port || decoded.error || decoded.replyCode !== DISCOVER_REPLY_CODE) {
+      ignored += 1;
+      return;
+    }
+    if (byAddress.has(rinfo.address)) return;
+    const probedAt = broadcast ? sentAt.get(hosts[0]) : sentAt.get(rinfo.address);
+    if (probedAt == null) {
+      ignored += 1;
+      return;
+    }
+    const ackStatus = parseAckStatus(decoded);
+    const device: DiscoveredDevice = {
+      name: `display-${rinfo.address.replace(/\./g, '-')}`,
+      target: `${rinfo.address}:${options.port}`,
+      profile: options.profile,
+      location: null,
+      latencyMs: receivedAt - probedAt,
+      replyCode: toCode(decoded.replyCode),
+      ackStatus,
+      status: ackStatus == null ? null : statusLabels.get(ackStatus) ?? `Status 0x${ackStatus.toString(16).toUpperCase().padStart(4, '0')}`,
+      rxHex: bytesToHex(rxBytes)
+    };
+    byAddress.set(rinfo.address, device);
+    logLine(hooks, `[FOUND] ${device.target} ${device.status ?? 'no status'} ${device.latencyMs} ms`);
+  });
+
+  try {
+    for (const host of hosts) {
+      if (hooks.signal?.aborted) break;
+      sentAt.set(host, Date.now());
+      await new Promise<void>(resolve => {
+        socket.send(probe, options.port, host, error => {
+          if (error) warnLine(hooks, `WARNING: Probe to ${host} failed: ${error.message}`);
+          resolve();
+        });
+      });
+      if (hosts.length > 1) await sleep(DISCOVER_PROBE_INTERVAL_MS);
+    }
+    if (!hooks.signal?.aborted) await sleep(options.timeoutMs);
+  } finally {
+    socket.close();
+  }
+
+  const devices = [...byAddress.values()].sort((a, b) => (parseIpv4(a.target.split(':')[0]) ?? 0) - (parseIpv4(b.target.split(':')[0]) ?? 0));
+  const finishedAt = new Date();
+  let inventoryPath: string | null = null;
+  if (devices.length > 0) {
+    inventoryPath = options.output
+      ? resolveRunFile(rootDir, options.output)
+      : path.resolve(rootDir, 'data', `discover-${toFileStamp(startedAt)}.json`);
+    fs.mkdirSync(path.dirname(inventoryPath), { recursive: true });
+    const inventory = { discoveredAt: startedAt.toISOString(), range: options.range, port: options.port, devices };
+    fs.writeFileSync(inventoryPath, JSON.stringify(inventory, null, 2) + '\n', 'utf8');
+  }
+
+  logLine(hooks, '');
+  if (devices.length > 0) {
+    for (const line of formatDiscoverTable(devices)) {
+      logLine(hooks, line);
+    }
+    logLine(hooks, '');
+  }
+  const ignoredText = ignored > 0 ? ` ignored=${ignored}` : '';
+  logLine(hooks, `Discovered ${devices.length} device(s) from ${hosts.length} probe(s)${ignoredText}`);
+  if (inventoryPath) {
+    logLine(hooks, `INVENTORY: ${inventoryPath} (use with --fleet)`);
+  }
+  return { startedAt, finishedAt, probes: hosts.length, devices, inventoryPath };
+}
+
+export function parseDecodeOptions(argv: string[]): DecodeOptions {
+  const hex: string[] = [];
+  let file: string | null = null;
+
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index];
+    if (index === 0 && arg === 'decode') continue;
+
+    if (arg === '--file') {
+      const next = argv[index + 1];
+      if (!next) throw new Error('--file requires a path');
+      index += 1;
+      file = next;
+      continue;
+    }
+
+    if (arg.startsWith('--')) {
+      throw new Error(`Unknown argument for decode: ${arg}`);
+    }
+    hex.push(arg);
+  }
+
+  if (hex.length > 0 && file) {
+    throw new Error('decode takes hex or --file, not both');
+  }
+  // Unquoted pastes arrive as one argument per byte, so the arguments together form one frame.
+  return { hex: hex.length > 0 ? hex.join(' ') : null, file };
+}
+
+// normalizeHex turns anything else into a separator, so stray text would otherwise decode as a short frame.
+function checkDecodeHex(input: string, source: string): string {
+  const invalid = input.replace(/0x/gi, '').match(/[^0-9A-Fa-f\s,]/);
+  if (invalid) throw new Error(`${source} is not hex: unexpected "${invalid[0]}" in "${input}"`);
+  if (!normalizeHex(input)) throw new Error(`${source} has no hex bytes`);
+  return input;
+}
+
+function readDecodeInputs(options: DecodeOptions, rootDir: string): string[] {
+  if (options.hex != null) return [checkDecodeHex(options.hex, 'decode input')];
+  let text: string;
+  let source = 'stdin';
+  if (options.file) {
+    const filePath = resolveRunFile(rootDir, options.file);
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Decode file not found: ${filePath}`);
+    }
+    text = fs.readFileSync(filePath, 'utf8');
+    source = filePath;
+  } else {
+    if (process.stdin.isTTY) {
+      throw new Error('decode requires hex, --file <path> or frames on stdin');
+    }
+    text = fs.readFileSync(0, 'utf8');
+  }
+  const inputs: string[] = [];
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (line.length === 0 || line.startsWith('#')) return;
+    inputs.push(checkDecodeHex(line, `${source} line ${index + 1}`));
+  });
+  if (inputs.length === 0) throw new Error(`No frames to decode in ${source}`);
+  return inputs;
+}
+
+function addressName(value: number): string | null {
+  if (value === CONTROLLER_ADDRESS) return 'controller';
+  if (value === DISPLAY_ADDRESS) return 'display';
+  return null;
+}
+
+function frameDirection(bytes: number[]): FrameDirection {
+  const flag = bytes[FRAME_OFFSETS.header + FRAME_HEADER_LENGTH - 1];
+  if (flag === 0x01) return 'request';
+  if (flag === 0x00) return 'reply';
+  return 'unknown';
+}
+
+function annotateByte(bytes: number[], offset: number, expectedChecksum: number | null): Omit<ByteAnnotation, 'offset' | 'byte'> {
+  const value = bytes[offset];
+  const hasChecksum = bytes.length >= MIN_FRAME_LENGTH;
+  if (hasChecksum && offset === bytes.length - 1) {
+    const note = expectedChecksum == null || value === expectedChecksum
+      ? 'OK'
+      : `expected ${bytesToHex([expectedChecksum])}`;
+    return { field: 'checksum', note };
+  }
+  if (offset < FRAME_OFFSETS.header) {
+    return { field: `preamble[${offset}]`, note: value === FRAME_PREAMBLE[offset] ? null : `expected ${bytesToHex([FRAME_PREAMBLE[offset]])}` };
+  }
+  if (offset < FRAME_OFFSETS.sourceAddress) {
+    const headerIndex = offset - FRAME_OFFSETS.header;
+    const note = headerIndex === FRAME_HEADER_LENGTH - 1 ? frameDirection(bytes) : null;
+    return { field: `header[${headerIndex}]`, note };
+  }
+  if (offset === FRAME_OFFSETS.sourceAddress) return { field: 'sourceAddress', note: addressName(value) };
+  if (offset === FRAME_OFFSETS.addressFlag) return { field: 'addressFlag', note: null };
+  if (offset === FRAME_OFFSETS.destinationAddress) return { field: 'destinationAddress', note: addressName(value) };
+  if (offset < FRAME_OFFSETS.reserved) {
+    const low = offset === FRAME_OFFSETS.commandCode;
+    const code = bytes[FRAME_OFFSETS.commandCode] | ((bytes[FRAME_OFFSETS.commandCode + 1] ?? 0) << 8);
+    return { field: `commandCode (${low ? 'lo' : 'hi'})`, note: low ? formatCommandCode(code) : null };
+  }
+  if (offset < FRAME_OFFSETS.payloadLength) {
+    return { field: `reserved[${offset - FRAME_OFFSETS.reserved}]`, note: null };
+  }
+  if (offset < FRAME_OFFSETS.payload) {
+    const low = offset === FRAME_OFFSETS.payloadLength;
+    const length = bytes[FRAME_OFFSETS.payloadLength] | ((bytes[FRAME_OFFSETS.payloadLength + 1] ?? 0) << 8);
+    return { field: `payloadLength (${low ? 'lo' : 'hi'})`, note: low ? `${length} byte(s)` : null };
+  }
+  return { field: `payload[${offset - FRAME_OFFSETS.payload}]`, note: null };
+}
+
+function emptyAnnotation(hex: string, error: string | null): FrameAnnotation {
+  return {
+    hex,
+    ok: false,
+    error,
+    direction: 'unknown',
+    code: null,
+    category: null,
+    commands: [],
+    payloadHex: null,
+    checksum: null,
+    expectedChecksum: null,
+    checksumOk: null,
+    parserCode: null,
+    meaning: null,
+    parsed: null,
+    ackStatus: null,
+    ackMeaning: null,
+    bytes: []
+  };
+}
+
+// Parses a reply with the semantic parser validation uses for the row's command. Null when the command is
+// validated by exact match only, or the reply has no payload to parse.
+export function parseReplyForRow(row: TruthCommandRow, rxBytes: number[]): (ParseResult & { parserCode: string }) | null {
+  const policy = resolvePolicy(buildCaseFromTruthRow(row, 'truth'), DEFAULT_OPTIONS.profile);
+  if (!policy.parserCode) return null;
+  if (policy.validationMode !== 'PARSED_RANGE' && policy.validationMode !== 'STRUCTURE_ONLY') return null;
+  if (policy.parserCode === 'C25B') {
+    return { ...parseHdmiPresenceFromFrame(rxBytes), parserCode: policy.parserCode };
+  }
+  const decoded = decodeReply(rxBytes);
+  if (!decoded.payload) return null;
+  return { ...parseSemanticByCode(policy.parserCode, decoded.payload.data), parserCode: policy.parserCode };
+}
+
+// Names the frame from the truth set: requests by set code, replies by reply code. An exact
+// match against a truth row's hex narrows the candidates to that row.
+function matchTruthRows(rows: TruthCommandRow[], hex: string, direction: FrameDirection, code: string): TruthCommandRow[] {
+  const byCode = rows.filter(row =>
+    normalizeCode(direction === 'reply' ? row.replyCommandCode : row.setCommandCode) === code
+  );
+  const exact = byCode.filter(row => normalizeHex((direction === 'reply' ? row.replyHex : row.requestHex) ?? '') === hex);
+  return exact.length > 0 ? exact : byCode;
+}
+
+export function annotateFrame(input: string, rows: TruthCommandRow[]): FrameAnnotation {
+  const hex = normalizeHex(input);
+  let bytes: number[];
+  try {
+    bytes = parseHexBytes(hex);
+  } catch (error) {
+    return emptyAnnotation(hex, error instanceof Error ? error.message : String(error));
+  }
+
+  const decoded = decodeFrame(bytes);
+  const expectedChecksum = bytes.length >= MIN_FRAME_LENGTH ? computePdfChecksum(bytes) : null;
+  const annotation: FrameAnnotation = {
+    ...emptyAnnotation(hex, decoded.ok ? null : decoded.error.message),
+    direction: hasFramePreamble(bytes) && bytes.length > FRAME_OFFSETS.sourceAddress ? frameDirection(bytes) : 'unknown',
+    bytes: bytes.map((value, offset) => ({ offset, byte: bytesToHex([value]), ...annotateByte(bytes, offset, expectedChecksum) }))
+  };
+  if (!decoded.ok) return annotation;
+
+  const { frame } = decoded;
+  const code = normalizeCode(frame.commandCode.toString(16))!;
+  const matches = matchTruthRows(rows, hex, annotation.direction, code);
+  annotation.ok = frame.checksumOk;
+  annotation.code = toCode(code);
+  annotation.category = matches[0]?.category ?? null;
+  annotation.commands = [...new Set(matches.map(row => (matches.length === 1 ? row.commandKey : toCode(row.setCommandCode) ?? row.commandKey)))];
+  annotation.payloadHex = bytesToHex(frame.payload);
+  annotation.checksum = frame.checksum;
+  annotation.expectedChecksum = expectedChecksum;
+  annotation.checksumOk = frame.checksumOk;
+  if (annotation.direction !== 'reply') return annotation;
+
+  const row = matches[0];
+  const parsed = row ? parseReplyForRow(row, bytes) : null;
+  if (parsed) {
+    annotation.parserCode = parsed.parserCode;
+    annotation.meaning = parsed.meaning;
+    annotation.parsed = parsed.parsed;
+    return annotation;
+  }
+  if (!row || isSetCommand(row)) {
+    annotation.ackStatus = parseAckStatus(decodeReply(bytes));
+    annotation.ackMeaning = ackMeaning(annotation.ackStatus);
+  }
+  return annotation;
+}
+
+export function formatFrameAnnotation(annotation: FrameAnnotation): string[] {
+  const lines = [`Frame: ${annotation.hex || '(empty)'}`];
+  if (annotation.error) {
+    lines.push(`  Invalid: ${annotation.error}`);
+  }
+  if (annotation.code) {
+    const names = annotation.commands.length > 0 ? ` ${annotation.commands.join(', ')}` : ' (not in truth set)';
+    lines.push(`  ${annotation.direction} ${annotation.code}${annotation.category ? ` ${annotation.category}` : ''}:${names}`);
+  }
+  if (annotation.checksumOk != null) {
+    lines.push(
+      annotation.checksumOk
+        ? `  Checksum: OK (${bytesToHex([annotation.checksum!])})`
+        : `  Checksum: MISMATCH (got ${bytesToHex([annotation.checksum!])}, expected ${bytesToHex([annotation.expectedChecksum!])})`
+    );
+  }
+  if (annotation.payloadHex != null) {
+    lines.push(`  Payload: ${annotation.payloadHex || '(empty)'}`);
+  }
+  if (annotation.meaning != null) {
+    lines.push(`  Parsed (${annotation.parserCode}): ${annotation.meaning}`);
+  }
+  if (annotation.ackMeaning != null) {
+    lines.push(`  Ack: ${annotation.ackMeaning}`);
+  }
+  if (annotation.bytes.length > 0) {
+    lines.push('  Offset  Byte  Field                    Note');
+    for (const item of annotation.bytes) {
+      lines.push(`  ${String(item.offset).padEnd(6)}  ${item.byte.padEnd(4)}  ${item.field.padEnd(23)}  ${item.note ?? ''}`.trimEnd());
+    }
+  }
+  return lines;
+}
+
+export function runDecode(options: DecodeOptions, hooks: RunHooks = {}, rootDir: string = defaultRootDir()): DecodeResult {
+  const rows = loadTruth(rootDir);
+  const frames = readDecodeInputs(options, rootDir).map(input => annotateFrame(input, rows));
+  frames.forEach((annotation, index) => {
+    if (index > 0) logLine(hooks, '');
+    for (const line of formatFrameAnnotation(annotation)) {
+      logLine(hooks, line);
+    }
+  });
+  const invalid = frames.filter(annotation => !annotation.ok).length;
+  logLine(hooks, '');
+  logLine(hooks, `Decoded ${frames.length} frame(s): valid=${frames.length - invalid} invalid=${invalid}`);
+  return { frames, invalid };
+}
@@ -0,0 +1,336 @@
+import { spawn } from 'node:child_process';
+import dgram from 'node:dgram';
+import fs from 'node:fs';
+import net, { isIP } from 'node:net';
+import tty from 'node:tty';
+import { extractStreamFrames } from '@exview/protocol';
+
+export type TransportKind = 'udp' | 'tcp';
+
+export const TRANSPORT_KINDS: TransportKind[] = ['udp', 'tcp'];
+
+export type SerialParity = 'none' | 'even' | 'odd';
+
+export const SERIAL_PARITIES: SerialParity[] = ['none', 'even', 'odd'];
+
+export interface SerialTarget {
+  path: string;
+  baudRate: number;
+  parity: SerialParity;
+}
+
+export interface TransportTarget {
+  host: string;
+  port: number;
+  // UDP only: the display replies to this port.
+  localPort: number;
+}
+
+export interface ReceivedFrame {
+  bytes: number[];
+  receivedAtMs: number;
+}
+
+export interface Transport {
+  // serial is never chosen with --transport; it carries the serial-only rows next to the network link.
+  readonly kind: TransportKind | 'serial';
+  open(): Promise<void>;
+  send(bytes: number[]): Promise<void>;
+  // Next frame from the target, or null after timeoutMs. Frames that arrive while nothing is
+  // receiving are queued, so receive(0) drains what is already there.
+  receive(timeoutMs: number): Promise<ReceivedFrame | null>;
+  close(): Promise<void>;
+  // Endpoint lines for the run log; valid after open().
+  describe(): string[];
+}
+
+const TCP_CONNECT_TIMEOUT_MS = 5000;
+// Bytes that do not form an eXview frame are handed over as one reply once the line has been quiet this long.
+const SERIAL_IDLE_GAP_MS = 50;
+
+interface FrameQueue {
+  push(bytes: number[], receivedAtMs?: number): void;
+  take(timeoutMs: number): Promise<ReceivedFrame | null>;
+  clear(): void;
+}
+
+function createFrameQueue(): FrameQueue {
+  const frames: ReceivedFrame[] = [];
+  let waiter: ((frame: ReceivedFrame | null) => void) | null = null;
+
+  return {
+    push(bytes, receivedAtMs = Date.now()) {
+      const frame = { bytes, receivedAtMs };
+      if (waiter) {
+        const resolve = waiter;
+        waiter = null;
+        resolve(frame);
+        return;
+      }
+      frames.push(frame);
+    },
+    take(timeoutMs) {
+      const queued = frames.shift();
+      if (queued) return Promise.resolve(queued);
+      if (timeoutMs <= 0) return Promise.resolve(null);
+      if (waiter) return Promise.reject(new Error('Transport already has a pending receive'));
+      return new Promise(resolve => {
+        const timer = setTimeout(() => {
+          waiter = null;
+          resolve(null);
+        }, timeoutMs);
+        waiter = frame => {
+          clearTimeout(timer);
+          resolve(frame);
+        };
+      });
+    },
+    clear() {
+      frames.length = 0;
+      waiter?.(null);
+      waiter = null;
+    }
+  };
+}
+
+export async function bindSocket(socket: dgram.Socket, localPort: number): Promise<dgram.AddressInfo> {
+  await new Promise<void>((resolve, reject) => {
+    const onError = (error: Error) => {
+      socket.removeListener('listening', onListening);
+      reject(error);
+    };
+    const onListening = () => {
+      socket.removeListener('error', onError);
+      resolve();
+    };
+    socket.once('error', onError);
+    socket.once('listening', onListening);
+    socket.bind(localPort);
+  });
+  const address = socket.address();
+  if (typeof address === 'string') {
+    throw new Error('Unexpected socket.address() string');
+  }
+  return address;
+}
+
+export function createUdpTransport(target: TransportTarget): Transport {
+  const socket = dgram.createSocket('udp4');
+  const queue = createFrameQueue();
+  const requireIp = isIP(target.host) !== 0;
+  let bound: dgram.AddressInfo | null = null;
+  let closed = false;
+
+  socket.on('message', (buffer, rinfo) => {
+    if (requireIp && rinfo.address !== target.host) return;
+    if (rinfo.port !== target.port) return;
+    queue.push([...buffer.values()]);
+  });
+
+  return {
+    kind: 'udp',
+    async open() {
+      bound = await bindSocket(socket, target.localPort);
+    },
+    send(bytes) {
+      return new Promise((resolve, reject) => {
+        socket.send(Buffer.from(bytes), target.port, target.host, error => (error ? reject(error) : resolve()));
+      });
+    },
+    receive: timeoutMs => queue.take(timeoutMs),
+    async close() {
+      queue.clear();
+      if (closed) return;
+      closed = true;
+      await new Promise<void>(resolve => socket.close(() => resolve()));
+    },
+    describe: () => [
+      `Bound UDP local endpoint: ${bound?.address ?? '?'}:${bound?.port ?? target.localPort}`,
+      `Remote UDP target: ${target.host}:${target.port}`
+    ]
+  };
+}
+
+// For control ports tunnelled through a terminal server: the stream is cut back into frames on the
+// preamble and payload length.
+export function createTcpTransport(target: TransportTarget): Transport {
+  const queue = createFrameQueue();
+  let socket: net.Socket | null = null;
+  let pending: number[] = [];
+  let closedError: Error | null = null;
+
+  return {
+    kind: 'tcp',
+    async open() {
+      const connection = net.createConnection({ host: target.host, port: target.port });
+      await new Promise<void>((resolve, reject) => {
+        const onError = (error: Error) => {
+          clearTimeout(timer);
+          reject(error);
+        };
+        const timer = setTimeout(() => {
+          connection.off('error', onError);
+          connection.destroy();
+          reject(new Error(`TCP connect to ${target.host}:${target.port} timed out after ${TCP_CONNECT_TIMEOUT_MS} ms`));
+        }, TCP_CONNECT_TIMEOUT_MS);
+        connection.once('error', onError);
+        connection.once('connect', () => {
+          clearTimeout(timer);
+          connection.off('error', onError);
+          resolve();
+        });
+      });
+      connection.setNoDelay(true);
+      connection.on('data', chunk => {
+        const split = extractStreamFrames([...pending, ...chunk.values()]);
+        pending = split.rest;
+        for (const frame of split.frames) queue.push(frame);
+      });
+      connection.on('error', error => {
+        closedError = error;
+      });
+      connection.on('close', () => {
+        closedError ??= new Error(`TCP connection to ${target.host}:${target.port} closed`);
+      });
+      socket = connection;
+    },
+    send(bytes) {
+      if (!socket) return Promise.reject(new Error('TCP transport is not open'));
+      if (closedError) return Promise.reject(closedError);
+      const connection = socket;
+      return new Promise((resolve, reject) => {
+        connection.write(Buffer.from(bytes), error => (error ? reject(error) : resolve()));
+      });
+    },
+    receive: timeoutMs => queue.take(timeoutMs),
+    async close() {
+      queue.clear();
+      const connection = socket;
+      socket = null;
+      if (!connection || connection.destroyed) return;
+      // Flushes queued writes before tearing down; a terminal server may never close its half.
+      connection.destroySoon();
+    },
+    describe: () => [
+      `Connected TCP local endpoint: ${socket?.localAddress ?? '?'}:${socket?.localPort ?? '?'}`,
+      `Remote TCP target: ${target.host}:${target.port}`
+    ]
+  };
+}
+
+function sttyArgs(target: SerialTarget): string[] {
+  const parity = target.parity === 'none' ? ['-parenb'] : target.parity === 'even' ? ['parenb', '-parodd'] : ['parenb', 'parodd'];
+  return [String(target.baudRate), 'cs8', '-cstopb', ...parity, 'raw', '-echo', 'clocal', '-crtscts', '-ixon', '-ixoff'];
+}
+
+// stty reads the line settings from its stdin, so the same call works with Linux and macOS stty.
+function configureSerialLine(fd: number, target: SerialTarget): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn('stty', sttyArgs(target), { stdio: [fd, 'ignore', 'pipe'] });
+    let stderr = '';
+    child.stderr?.on('data', chunk => {
+      stderr += String(chunk);
+    });
+    child.once('error', error => reject(new Error(`Cannot run stty for ${target.path}: ${error.message}`)));
+    child.once('close', code => {
+      if (code === 0) {
+        resolve();
+        return;
+      }
+      reject(new Error(`Cannot configure ${target.path} (stty ${sttyArgs(target).join(' ')}): ${stderr.trim() || `exit code ${code}`}`));
+    });
+  });
+}
+
+// RS-232 port of the display, e.g. /dev/ttyUSB0 or one end of a pty pair. 8 data bits, 1 stop bit, no flow control.
+// eXview frames are cut on the preamble as soon as they are complete; other bytes (the RS-232-only power frames)
+// are delivered as one reply after SERIAL_IDLE_GAP_MS of silence.
+export function createSerialTransport(target: SerialTarget): Transport {
+  const queue = createFrameQueue();
+  let stream: tty.ReadStream | null = null;
+  let pending: number[] = [];
+  let firstByteAtMs = 0;
+  let idleTimer: NodeJS.Timeout | null = null;
+  let closedError: Error | null = null;
+
+  const flushPending = (): void => {
+    idleTimer = null;
+    if (pending.length > 0) queue.push(pending, firstByteAtMs);
+    pending = [];
+  };
+
+  const onData = (chunk: Buffer): void => {
+    if (pending.length === 0) firstByteAtMs = Date.now();
+    pending = [...pending, ...chunk.values()];
+    const split = extractStreamFrames(pending);
+    if (split.frames.length > 0) {
+      for (const frame of split.frames) queue.push(frame, firstByteAtMs);
+      pending = split.rest;
+      firstByteAtMs = Date.now();
+    }
+    if (idleTimer) clearTimeout(idleTimer);
+    idleTimer = pending.length > 0 ? setTimeout(flushPending, SERIAL_IDLE_GAP_MS) : null;
+  };
+
+  return {
+    kind: 'serial',
+    async open() {
+      if (process.platform === 'win32') {
+        throw new Error('Serial transport needs a POSIX tty device such as /dev/ttyUSB0');
+      }
+      const fd = await new Promise<number>((resolve, reject) => {
+        fs.open(target.path, fs.constants.O_RDWR | fs.constants.O_NOCTTY | fs.constants.O_NONBLOCK, (error, opened) =>
+          error ? reject(new Error(`Cannot open serial port ${target.path}: ${error.message}`)) : resolve(opened)
+        );
+      });
+      if (!tty.isatty(fd)) {
+        fs.closeSync(fd);
+        throw new Error(`${target.path} is not a serial device`);
+      }
+      try {
+        await configureSerialLine(fd, target);
+      } catch (error) {
+        fs.closeSync(fd);
+        throw error;
+      }
+      // tty.ReadStream owns the descriptor from here on and writes through the same handle.
+      const port = new tty.ReadStream(fd);
+      port.on('data', onData);
+      port.on('error', error => {
+        closedError = error;
+      });
+      port.on('close', () => {
+        closedError ??= new Error(`Serial port ${target.path} closed`);
+      });
+      stream = port;
+    },
+    send(bytes) {
+      if (!stream) return Promise.reject(new Error('Serial transport is not open'));
+      if (closedError) return Promise.reject(closedError);
+      const port = stream;
+      return new Promise((resolve, reject) => {
+        port.write(Buffer.from(bytes), error => (error ? reject(error) : resolve()));
+      });
+    },
+    receive: timeoutMs => queue.take(timeoutMs),
+    async close() {
+      if (idleTimer) clearTimeout(idleTimer);
+      idleTimer = null;
+      pending = [];
+      queue.clear();
+      const port = stream;
+      stream = null;
+      if (!port || port.destroyed) return;
+      await new Promise<void>(resolve => {
+        port.once('close', () => resolve());
+        port.destroy();
+      });
+    },
+    describe: () => [`Serial port: ${target.path} ${target.baudRate} baud, 8${target.parity[0].toUpperCase()}1`]
+  };
+}
+
+export function createTransport(kind: TransportKind, target: TransportTarget): Transport {
+  if (kind === 'tcp') return createTcpTransport(target);
+  return createUdpTransport(target);
+}
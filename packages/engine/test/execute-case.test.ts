@@ -0,0 +1,252 @@
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import { describe, test } from 'node:test';
+import { startDeviceSimulator, type DeviceSimulator, type SimulatorOptions } from '@exview/simulator';
+import {
+  buildCaseFromTruthRow,
+  createOptions,
+  createTransport,
+  defaultRootDir,
+  executeCase,
+  indexTruth,
+  loadTruth,
+  type CertifyRecord,
+  type CliOptions,
+  type Transport
+} from '../src/device-certify.ts';
+
+// Each test gets its own simulator and socket, so a seeded fault script always meets the same sequence of requests.
+const rootDir = defaultRootDir();
+const truth = indexTruth(loadTruth(rootDir));
+const quiet = { log: () => undefined, warn: () => undefined };
+
+interface Device {
+  simulator: DeviceSimulator;
+  transport: Transport;
+  options: CliOptions;
+}
+
+async function openDevice(faultScript: SimulatorOptions['faultScript'], retry?: Record<string, unknown>): Promise<Device> {
+  const simulator = await startDeviceSimulator({
+    truthPath: path.resolve(rootDir, 'data', 'commands.truth.json'),
+    host: '127.0.0.1',
+    port: 0,
+    verbose: false,
+    faultScript
+  });
+  const transport = createTransport('udp', { host: '127.0.0.1', port: simulator.port, localPort: 0 });
+  await transport.open();
+  const options = createOptions({
+    mode: 'single',
+    singleSelector: 'test',
+    targetHost: '127.0.0.1',
+    targetPort: simulator.port,
+    timeoutMs: 300,
+    settleSetMs: 0,
+    settleModeMs: 0,
+    retry: retry ?? { maxAttempts: 1 }
+  });
+  return { simulator, transport, options };
+}
+
+async function closeDevice(device: Device): Promise<void> {
+  await device.transport.close();
+  await device.simulator.close();
+}
+
+function run(device: Device, commandKey: string): Promise<CertifyRecord> {
+  const row = truth.byKey.get(commandKey);
+  assert.ok(row, `${commandKey} is in the truth set`);
+  return executeCase(device.transport, buildCaseFromTruthRow(row, 'truth'), device.options, truth.bySetCode, quiet);
+}
+
+describe('executeCase with seeded simulator faults', () => {
+  test('clean reply passes', async () => {
+    const device = await openDevice(undefined);
+    try {
+      const record = await run(device, '0xC213:2-hdmi1');
+      assert.equal(record.status, 'PASS');
+      assert.equal(record.matchType, 'EXACT');
+    } finally {
+      await closeDevice(device);
+    }
+  });
+
+  test('drop gives NO_REPLY', async () => {
+    const device = await openDevice({ seed: 7, faults: [{ code: '0xC213', type: 'drop' }] });
+    try {
+      const record = await run(device, '0xC213:2-hdmi1');
+      assert.equal(record.status, 'NO_REPLY');
+      assert.equal(record.matchType, 'NO_REPLY');
+      assert.equal(record.rxHex, null);
+    } finally {
+      await closeDevice(device);
+    }
+  });
+
+  test('corrupt-checksum gives CHECKSUM_DIFF', async () => {
+    const device = await openDevice({ seed: 7, faults: [{ code: '0xC213', type: 'corrupt-checksum' }] });
+    try {
+      const record = await run(device, '0xC213:2-hdmi1');
+      assert.equal(record.status, 'PASS');
+      assert.equal(record.matchType, 'CHECKSUM_DIFF');
+    } finally {
+      await closeDevice(device);
+    }
+  });
+
+  test('wrong-reply-code gives REPLY_CODE_MISMATCH', async () => {
+    const device = await openDevice({ seed: 7, faults: [{ code: '0xC213', type: 'wrong-reply-code' }] });
+    try {
+      const record = await run(device, '0xC213:2-hdmi1');
+      assert.equal(record.status, 'FAIL');
+      assert.equal(record.matchType, 'REPLY_CODE_MISMATCH');
+      assert.match(record.meaning ?? '', /replyCode=0xC224/);
+    } finally {
+      await closeDevice(device);
+    }
+  });
+
+  test('a wrong code that answers an earlier, answered command is this reply', async () => {
+    // C213 replies with 0xC214; C203's 0xC204 shifted by wrong-reply-code is also 0xC214.
+    const device = await openDevice({ seed: 7, faults: [{ code: '0xC203', type: 'wrong-reply-code' }] });
+    try {
+      assert.equal((await run(device, '0xC213:2-hdmi1')).status, 'PASS');
+      const record = await run(device, '0xC203:0:gen-0');
+      assert.equal(record.matchType, 'REPLY_CODE_MISMATCH');
+      assert.deepEqual(record.staleFrames, []);
+      assert.ok(record.latencyMs != null && record.latencyMs < device.options.timeoutMs, `latency ${record.latencyMs}`);
+    } finally {
+      await closeDevice(device);
+    }
+  });
+
+  test('a reply to a timed-out command is kept aside as LATE', async () => {
+    const device = await openDevice({
+      seed: 7,
+      faults: [
+        { code: '0xC213', type: 'delay', delayMs: 400 },
+        { code: '0xC001', type: 'delay', delayMs: 200 }
+      ]
+    });
+    try {
+      assert.equal((await run(device, '0xC213:2-hdmi1')).status, 'NO_REPLY');
+      const record = await run(device, '0xC001:idle');
+      assert.equal(record.status, 'PASS');
+      assert.deepEqual(
+        record.staleFrames.map(frame => [frame.kind, frame.lateFor]),
+        [['LATE', '0xC213:2-hdmi1']]
+      );
+    } finally {
+      await closeDevice(device);
+    }
+  });
+
+  test('ack-busy is retried', async () => {
+    const device = await openDevice(
+      { seed: 7, faults: [{ code: '0xC213', type: 'ack-busy' }] },
+      { maxAttempts: 3, backoffMs: 0, retryOn: 'busy' }
+    );
+    try {
+      const record = await run(device, '0xC213:2-hdmi1');
+      assert.equal(record.status, 'FAIL');
+      assert.deepEqual(record.retries.map(item => item.outcome), ['busy', 'busy']);
+      assert.match(record.note ?? '', /FAIL after 2 retries \(busy, busy\)/);
+    } finally {
+      await closeDevice(device);
+    }
+  });
+
+  test('a busy closed-loop query is retried', async () => {
+    const device = await openDevice(
+      { seed: 7, faults: [{ code: '0xC201', type: 'ack-busy' }] },
+      { maxAttempts: 2, backoffMs: 0, retryOn: 'busy' }
+    );
+    try {
+      const record = await run(device, '0xC203:0:gen-0');
+      assert.equal(record.status, 'FAIL');
+      assert.deepEqual(record.retries.map(item => item.outcome), ['busy']);
+      assert.ok(record.retries[0].queryRxHex, 'retry keeps the query reply');
+    } finally {
+      await closeDevice(device);
+    }
+  });
+
+  test('the same seed replays the same faults', async () => {
+    const statuses: string[][] = [];
+    for (let pass = 0; pass < 2; pass += 1) {
+      const device = await openDevice({ seed: 42, faults: [{ code: '0xC213', type: 'drop', probability: 0.5 }] });
+      try {
+        const sequence: string[] = [];
+        for (let index = 0; index < 8; index += 1) {
+          sequence.push((await run(device, '0xC213:2-hdmi1')).status);
+        }
+        statuses.push(sequence);
+      } finally {
+        await closeDevice(device);
+      }
+    }
+    assert.deepEqual(statuses[0], statuses[1]);
+    assert.ok(statuses[0].includes('PASS') && statuses[0].includes('NO_REPLY'), statuses[0].join(','));
+  });
+
+  test('ack-busy is not retried when busy is not in retryOn', async () => {
+    const device = await openDevice(
+      { seed: 7, faults: [{ code: '0xC213', type: 'ack-busy' }] },
+      { maxAttempts: 3, backoffMs: 0, retryOn: 'no-reply' }
+    );
+    try {
+      const record = await run(device, '0xC213:2-hdmi1');
+      assert.equal(record.status, 'FAIL');
+      assert.equal(record.retries.length, 0);
+    } finally {
+      await closeDevice(device);
+    }
+  });
+});
+
+// Stands in for the RS-232 line: records what was written and hands back the scripted replies.
+function createFakeSerialTransport(replies: number[][]): Transport & { sent: number[][] } {
+  const sent: number[][] = [];
+  return {
+    kind: 'serial',
+    sent,
+    open: async () => undefined,
+    send: async bytes => {
+      sent.push(bytes);
+    },
+    receive: async () => {
+      const bytes = sent.length > 0 ? replies.shift() : undefined;
+      return bytes ? { bytes, receivedAtMs: Date.now() } : null;
+    },
+    close: async () => undefined,
+    describe: () => ['Fake serial line']
+  };
+}
+
+describe('executeCase on the serial line', () => {
+  const options = createOptions({ mode: 'single', singleSelector: 'test', timeoutMs: 50, settleSetMs: 0, settleModeMs: 0 });
+  const powerOn = (): ReturnType<typeof buildCaseFromTruthRow> => {
+    const row = truth.byKey.get('0xC009:power-on');
+    assert.ok(row, '0xC009:power-on is in the truth set');
+    const caseItem = buildCaseFromTruthRow(row, 'truth');
+    assert.equal(caseItem.serialOnly, true);
+    return caseItem;
+  };
+
+  test('power-on passes when the display stays silent', async () => {
+    const transport = createFakeSerialTransport([]);
+    const record = await executeCase(transport, powerOn(), options, truth.bySetCode, quiet);
+    assert.equal(transport.sent.length, 1);
+    assert.equal(record.status, 'PASS');
+    assert.equal(record.matchType, 'EXPECTED_NO_REPLY');
+  });
+
+  test('power-on passes when the display answers with non-eXview bytes', async () => {
+    const transport = createFakeSerialTransport([[0x06]]);
+    const record = await executeCase(transport, powerOn(), options, truth.bySetCode, quiet);
+    assert.equal(record.status, 'PASS');
+    assert.equal(record.matchType, 'EXPECTED_NO_REPLY_WITH_REPLY');
+    assert.equal(record.rxHex, '06');
+  });
+});
@@ -0,0 +1,252 @@
+// Exview AIO UDP frame layout (all offsets are byte indexes into the datagram):
+//
+//   0..6    preamble            7 x 0x55
+//   7..10   header              C0 01 03 + direction (01 on requests, 00 on replies)
+//   11      source address      D0 = controller, D1/C2 = display
+//   12      address flag        00 on requests, 01 on replies
+//   13      destination address
+//   14..15  command code        little-endian (03 C2 = 0xC203)
+//   16..35  reserved            00 00, 17 x FF, 00
+//   36..37  payload length      little-endian
+//   38..    payload
+//   last    checksum            sum of bytes 8..length-2, low byte
+
+export const FRAME_PREAMBLE: readonly number[] = [0x55, 0x55, 0x55, 0x55, 0x55, 0x55, 0x55];
+
+export const FRAME_OFFSETS = {
+  header: 7,
+  sourceAddress: 11,
+  addressFlag: 12,
+  destinationAddress: 13,
+  commandCode: 14,
+  reserved: 16,
+  payloadLength: 36,
+  payload: 38
+} as const;
+
+export const FRAME_HEADER_LENGTH = 4;
+export const FRAME_RESERVED_LENGTH = 20;
+export const FRAME_CHECKSUM_START = 8;
+// Empty payload plus checksum.
+export const MIN_FRAME_LENGTH = FRAME_OFFSETS.payload + 1;
+export const MAX_PAYLOAD_LENGTH = 0xffff;
+// Longest payload a stream reader will wait for; real replies are far shorter, so a larger length field is noise.
+export const MAX_STREAM_PAYLOAD_LENGTH = 1024;
+
+export interface ExviewFrame {
+  header: number[];
+  sourceAddress: number;
+  addressFlag: number;
+  destinationAddress: number;
+  commandCode: number;
+  reserved: number[];
+  payload: number[];
+}
+
+export interface DecodedFrame extends ExviewFrame {
+  length: number;
+  checksum: number;
+  expectedChecksum: number;
+  checksumOk: boolean;
+}
+
+export type FrameErrorCode = 'TOO_SHORT' | 'BAD_PREAMBLE' | 'LENGTH_MISMATCH';
+
+export interface FrameError {
+  code: FrameErrorCode;
+  message: string;
+  // Byte index the problem was found at, when there is one.
+  offset: number | null;
+}
+
+export type FrameDecodeResult = { ok: true; frame: DecodedFrame } | { ok: false; error: FrameError };
+
+export const REQUEST_HEADER: readonly number[] = [0xc0, 0x01, 0x03, 0x01];
+export const CONTROLLER_ADDRESS = 0xd0;
+export const DISPLAY_ADDRESS = 0xd1;
+export const DEFAULT_RESERVED: readonly number[] = [0x00, 0x00, ...new Array<number>(17).fill(0xff), 0x00];
+
+export function formatCommandCode(code: number): string {
+  return `0x${code.toString(16).toUpperCase().padStart(4, '0')}`;
+}
+
+export function hasFramePreamble(bytes: number[]): boolean {
+  if (bytes.length < FRAME_PREAMBLE.length) return false;
+  return FRAME_PREAMBLE.every((value, index) => bytes[index] === value);
+}
+
+export function computeFrameChecksum(bytes: number[]): number {
+  let sum = 0;
+  for (let index = FRAME_CHECKSUM_START; index <= bytes.length - 2; index += 1) {
+    sum = (sum + bytes[index]) & 0xff;
+  }
+  return sum;
+}
+
+function requireByte(name: string, value: number): void {
+  if (!Number.isInteger(value) || value < 0 || value > 0xff) {
+    throw new Error(`Invalid frame ${name}: ${value} (expected a byte)`);
+  }
+}
+
+function requireBytes(name: string, values: number[], length?: number): void {
+  if (length != null && values.length !== length) {
+    throw new Error(`Invalid frame ${name}: ${values.length} byte(s), expected ${length}`);
+  }
+  values.forEach((value, index) => requireByte(`${name}[${index}]`, value));
+}
+
+export function createRequestFrame(commandCode: number, payload: number[] = []): ExviewFrame {
+  return {
+    header: [...REQUEST_HEADER],
+    sourceAddress: CONTROLLER_ADDRESS,
+    addressFlag: 0x00,
+    destinationAddress: DISPLAY_ADDRESS,
+    commandCode,
+    reserved: [...DEFAULT_RESERVED],
+    payload: [...payload]
+  };
+}
+
+export function encodeFrame(frame: ExviewFrame): number[] {
+  requireBytes('header', frame.header, FRAME_HEADER_LENGTH);
+  requireByte('sourceAddress', frame.sourceAddress);
+  requireByte('addressFlag', frame.addressFlag);
+  requireByte('destinationAddress', frame.destinationAddress);
+  if (!Number.isInteger(frame.commandCode) || frame.commandCode < 0 || frame.commandCode > 0xffff) {
+    throw new Error(`Invalid frame commandCode: ${frame.commandCode}`);
+  }
+  requireBytes('reserved', frame.reserved, FRAME_RESERVED_LENGTH);
+  requireBytes('payload', frame.payload);
+  if (frame.payload.length > MAX_PAYLOAD_LENGTH) {
+    throw new Error(`Invalid frame payload: ${frame.payload.length} bytes exceeds ${MAX_PAYLOAD_LENGTH}`);
+  }
+
+  const bytes = [
+    ...FRAME_PREAMBLE,
+    ...frame.header,
+    frame.sourceAddress,
+    frame.addressFlag,
+    frame.destinationAddress,
+    frame.commandCode & 0xff,
+    (frame.commandCode >> 8) & 0xff,
+    ...frame.reserved,
+    frame.payload.length & 0xff,
+    (frame.payload.length >> 8) & 0xff,
+    ...frame.payload,
+    0x00
+  ];
+  bytes[bytes.length - 1] = computeFrameChecksum(bytes);
+  return bytes;
+}
+
+// A wrong checksum is reported on the decoded frame rather than as an error: certification still
+// needs to see what the device sent.
+export function decodeFrame(bytes: number[]): FrameDecodeResult {
+  if (bytes.length < MIN_FRAME_LENGTH) {
+    return {
+      ok: false,
+      error: { code: 'TOO_SHORT', message: `Frame is ${bytes.length} byte(s), minimum is ${MIN_FRAME_LENGTH}`, offset: null }
+    };
+  }
+  const badPreamble = FRAME_PREAMBLE.findIndex((value, index) => bytes[index] !== value);
+  if (badPreamble !== -1) {
+    return {
+      ok: false,
+      error: { code: 'BAD_PREAMBLE', message: `Expected 0x55 preamble byte at ${badPreamble}`, offset: badPreamble }
+    };
+  }
+  const payloadLength = bytes[FRAME_OFFSETS.payloadLength] | (bytes[FRAME_OFFSETS.payloadLength + 1] << 8);
+  const expectedLength = FRAME_OFFSETS.payload + payloadLength + 1;
+  if (expectedLength !== bytes.length) {
+    return {
+      ok: false,
+      error: {
+        code: 'LENGTH_MISMATCH',
+        message: `Payload length ${payloadLength} implies a ${expectedLength}-byte frame, got ${bytes.length}`,
+        offset: FRAME_OFFSETS.payloadLength
+      }
+    };
+  }
+
+  const checksum = bytes[bytes.length - 1];
+  const expectedChecksum = computeFrameChecksum(bytes);
+  return {
+    ok: true,
+    frame: {
+      header: bytes.slice(FRAME_OFFSETS.header, FRAME_OFFSETS.header + FRAME_HEADER_LENGTH),
+      sourceAddress: bytes[FRAME_OFFSETS.sourceAddress],
+      addressFlag: bytes[FRAME_OFFSETS.addressFlag],
+      destinationAddress: bytes[FRAME_OFFSETS.destinationAddress],
+      commandCode: bytes[FRAME_OFFSETS.commandCode] | (bytes[FRAME_OFFSETS.commandCode + 1] << 8),
+      reserved: bytes.slice(FRAME_OFFSETS.reserved, FRAME_OFFSETS.reserved + FRAME_RESERVED_LENGTH),
+      payload: bytes.slice(FRAME_OFFSETS.payload, bytes.length - 1),
+      length: bytes.length,
+      checksum,
+      expectedChecksum,
+      checksumOk: checksum === expectedChecksum
+    }
+  };
+}
+
+export interface StreamFrames {
+  frames: number[][];
+  // Bytes of an incomplete frame, to be prefixed to the next chunk.
+  rest: number[];
+  // Bytes dropped while resynchronising on the preamble.
+  discarded: number;
+}
+
+function findPreamble(bytes: number[], from: number): number {
+  for (let index = from; index + FRAME_PREAMBLE.length <= bytes.length; index += 1) {
+    if (!FRAME_PREAMBLE.every((value, offset) => bytes[index + offset] === value)) continue;
+    // A longer run of 0x55 is junk followed by the real preamble; the frame starts at the run's last 7 bytes.
+    let start = index;
+    while (bytes[start + FRAME_PREAMBLE.length] === FRAME_PREAMBLE[0]) start += 1;
+    return start;
+  }
+  return -1;
+}
+
+// Splits a byte stream (TCP, serial) into frames using the preamble and the payload length field.
+export function extractStreamFrames(bytes: number[]): StreamFrames {
+  const frames: number[][] = [];
+  let discarded = 0;
+  let offset = 0;
+
+  while (offset < bytes.length) {
+    const start = findPreamble(bytes, offset);
+    if (start === -1) {
+      // Keep a possible partial preamble at the tail.
+      let keep = 0;
+      while (keep < FRAME_PREAMBLE.length - 1 && offset + keep < bytes.length && bytes[bytes.length - 1 - keep] === FRAME_PREAMBLE[0]) {
+        keep += 1;
+      }
+      discarded += bytes.length - keep - offset;
+      offset = bytes.length - keep;
+      break;
+    }
+    discarded += start - offset;
+    offset = start;
+    if (bytes.length - offset < FRAME_OFFSETS.payload) break;
+    const payloadLength = bytes[offset + FRAME_OFFSETS.payloadLength] | (bytes[offset + FRAME_OFFSETS.payloadLength + 1] << 8);
+    // An implausible length or a bad checksum means this was not a frame start; resync past it.
+    if (payloadLength > MAX_STREAM_PAYLOAD_LENGTH) {
+      discarded += 1;
+      offset += 1;
+      continue;
+    }
+    const frameLength = FRAME_OFFSETS.payload + payloadLength + 1;
+    if (bytes.length - offset < frameLength) break;
+    const frame = bytes.slice(offset, offset + frameLength);
+    if (frame[frame.length - 1] !== computeFrameChecksum(frame)) {
+      discarded += 1;
+      offset += 1;
+      continue;
+    }
+    frames.push(frame);
+    offset += frameLength;
+  }
+
+  return { frames, rest: bytes.slice(offset), discarded };
+}
@@ -0,0 +1,287 @@
+import dgram from 'node:dgram';
+import fs from 'node:fs';
+import net from 'node:net';
+import { decodeFrame, encodeFrame, extractStreamFrames, type ExviewFrame } from '@exview/protocol';
+import { createFaultInjector, type FaultPlan, type FaultScript } from './fault-injection.ts';
+
+interface TruthCommandRow {
+  commandKey: string;
+  category: string;
+  requestHex: string;
+  replyHex: string | null;
+  setCommandCode: string | null;
+  replyCommandCode: string | null;
+  transport?: string;
+}
+
+interface TruthFile {
+  commands: TruthCommandRow[];
+}
+
+interface ReplyEntry {
+  commandKey: string;
+  requestBytes: number[];
+  replyBytes: number[] | null;
+}
+
+export interface SimulatorOptions {
+  truthPath: string;
+  host: string;
+  port: number;
+  // tcp serves the same replies over a stream, like a terminal server in front of the display.
+  transport?: 'udp' | 'tcp';
+  verbose: boolean;
+  faultScript?: FaultScript;
+}
+
+export interface SimulatorTruth {
+  byRequestHex: Map<string, ReplyEntry>;
+  byCommandCode: Map<string, ReplyEntry>;
+}
+
+export interface DeviceSimulator {
+  address: string;
+  port: number;
+  state: Map<string, number>;
+  close(): Promise<void>;
+}
+
+// Set code -> query code whose single-byte reply payload mirrors the last written value.
+const STATEFUL_QUERY_BY_SET: Record<string, string> = {
+  C203: 'C201',
+  C21F: 'C21D',
+  C217: 'C215',
+  C223: 'C221',
+  C227: 'C225',
+  C22B: 'C229',
+  C259: 'C257',
+  C262: 'C264',
+  C20F: 'C20D',
+  C213: 'C211',
+  C245: 'C243'
+};
+
+// Set code -> byte offset inside the 0xC242 video combination payload.
+const VIDEO_COMBO_INDEX_BY_SET: Record<string, number> = {
+  C21F: 0,
+  C21B: 1,
+  C20F: 2,
+  C213: 3,
+  C203: 4,
+  C217: 5,
+  C245: 6
+};
+
+function parseHexBytes(input: string): number[] {
+  const tokens = input
+    .replace(/0x/gi, '')
+    .replace(/[^0-9A-Fa-f]/g, ' ')
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean);
+  return tokens.map(token => {
+    const value = Number.parseInt(token, 16);
+    if (token.length !== 2 || !Number.isFinite(value)) {
+      throw new Error(`Invalid hex token "${token}"`);
+    }
+    return value;
+  });
+}
+
+function bytesToHex(bytes: number[]): string {
+  return bytes.map(byte => byte.toString(16).padStart(2, '0').toUpperCase()).join(' ');
+}
+
+function commandCodeOf(frame: ExviewFrame): string {
+  return frame.commandCode.toString(16).toUpperCase().padStart(4, '0');
+}
+
+function withPayloadByte(template: number[], offset: number, value: number): number[] {
+  const decoded = decodeFrame(template);
+  if (!decoded.ok || offset >= decoded.frame.payload.length) return [...template];
+  const payload = [...decoded.frame.payload];
+  payload[offset] = value & 0xff;
+  return encodeFrame({ ...decoded.frame, payload });
+}
+
+export function loadSimulatorTruth(truthPath: string): SimulatorTruth {
+  if (!fs.existsSync(truthPath)) {
+    throw new Error(`Missing truth file: ${truthPath}`);
+  }
+  const parsed = JSON.parse(fs.readFileSync(truthPath, 'utf8')) as TruthFile;
+  if (!Array.isArray(parsed.commands)) {
+    throw new Error('Invalid truth file: commands array missing');
+  }
+
+  const byRequestHex = new Map<string, ReplyEntry>();
+  const byCommandCode = new Map<string, ReplyEntry>();
+  for (const row of parsed.commands) {
+    const requestBytes = parseHexBytes(row.requestHex ?? '');
+    const request = decodeFrame(requestBytes);
+    if (!request.ok) continue;
+    // Rows captured without a reply (e.g. 0xC211 in split-screen mode) stay silent even when a template exists.
+    const silent = (row.transport ?? '').toUpperCase() === 'NO_REPLY';
+    const entry: ReplyEntry = {
+      commandKey: row.commandKey,
+      requestBytes,
+      replyBytes: row.replyHex && !silent ? parseHexBytes(row.replyHex) : null
+    };
+    // Several truth rows share one request frame (e.g. 0xC001 idle/busy); the first row is the device's normal answer.
+    const requestHex = bytesToHex(requestBytes);
+    if (!byRequestHex.has(requestHex)) byRequestHex.set(requestHex, entry);
+    const code = commandCodeOf(request.frame);
+    if (!byCommandCode.has(code)) byCommandCode.set(code, entry);
+  }
+  return { byRequestHex, byCommandCode };
+}
+
+export function buildSimulatedReply(truth: SimulatorTruth, state: Map<string, number>, requestBytes: number[]): number[] | null {
+  const request = decodeFrame(requestBytes);
+  if (!request.ok) return null;
+  const code = commandCodeOf(request.frame);
+  const entry = truth.byRequestHex.get(bytesToHex(requestBytes)) ?? truth.byCommandCode.get(code);
+  if (!entry?.replyBytes) return null;
+
+  const writtenPayload = request.frame.payload;
+  if (STATEFUL_QUERY_BY_SET[code] || VIDEO_COMBO_INDEX_BY_SET[code] != null) {
+    if (writtenPayload.length > 0) state.set(code, writtenPayload[0]);
+    return [...entry.replyBytes];
+  }
+
+  const setCode = Object.keys(STATEFUL_QUERY_BY_SET).find(key => STATEFUL_QUERY_BY_SET[key] === code);
+  if (setCode) {
+    const value = state.get(setCode);
+    return value == null ? [...entry.replyBytes] : withPayloadByte(entry.replyBytes, 0, value);
+  }
+
+  if (code === 'C241') {
+    let reply = [...entry.replyBytes];
+    for (const [key, offset] of Object.entries(VIDEO_COMBO_INDEX_BY_SET)) {
+      const value = state.get(key);
+      if (value != null) reply = withPayloadByte(reply, offset, value);
+    }
+    return reply;
+  }
+
+  return [...entry.replyBytes];
+}
+
+export async function startDeviceSimulator(options: SimulatorOptions): Promise<DeviceSimulator> {
+  const truth = loadSimulatorTruth(options.truthPath);
+  const state = new Map<string, number>();
+  const injector = options.faultScript ? createFaultInjector(options.faultScript) : null;
+
+  // Returns the reply with its fault plan applied, or null when the request goes unanswered.
+  const handleRequest = (requestBytes: number[], from: string): { reply: number[]; plan: FaultPlan | null } | null => {
+    const request = decodeFrame(requestBytes);
+    const code = request.ok ? commandCodeOf(request.frame) : null;
+    let reply = buildSimulatedReply(truth, state, requestBytes);
+    const plan = reply && injector && code ? injector.plan(code) : null;
+    if (reply && plan && injector) {
+      reply = plan.drop ? null : injector.apply(plan, reply);
+    }
+    if (options.verbose) {
+      const codeText = code ? `0x${code}` : 'non-UDP';
+      const faultText = plan && plan.applied.length > 0 ? ` faults=${plan.applied.join(',')}` : '';
+      console.log(`[SIM] ${from} ${codeText} ${reply ? `reply=${bytesToHex(reply)}` : 'no reply'}${faultText}`);
+    }
+    return reply ? { reply, plan } : null;
+  };
+
+  const deliver = (plan: FaultPlan | null, send: () => void): void => {
+    const sendAll = (): void => {
+      send();
+      if (plan?.duplicate) send();
+    };
+    if (plan && plan.delayMs > 0) {
+      setTimeout(sendAll, plan.delayMs);
+    } else {
+      sendAll();
+    }
+  };
+
+  if (options.transport === 'tcp') {
+    return startTcpSimulator(options, state, handleRequest, deliver);
+  }
+
+  const socket = dgram.createSocket('udp4');
+  const strayPortSocket = injector ? dgram.createSocket('udp4') : null;
+
+  socket.on('message', (buffer, rinfo) => {
+    const handled = handleRequest([...buffer.values()], `${rinfo.address}:${rinfo.port}`);
+    if (!handled) return;
+    const payload = Buffer.from(handled.reply);
+    const sender = handled.plan?.wrongPort && strayPortSocket ? strayPortSocket : socket;
+    deliver(handled.plan, () => sender.send(payload, rinfo.port, rinfo.address));
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    socket.once('error', reject);
+    socket.bind(options.port, options.host, () => {
+      socket.off('error', reject);
+      resolve();
+    });
+  });
+  if (strayPortSocket) {
+    await new Promise<void>(resolve => strayPortSocket.bind(0, options.host, () => resolve()));
+  }
+
+  const address = socket.address();
+  return {
+    address: address.address,
+    port: address.port,
+    state,
+    close: async () => {
+      if (strayPortSocket) await new Promise<void>(resolve => strayPortSocket.close(() => resolve()));
+      await new Promise<void>(resolve => socket.close(() => resolve()));
+    }
+  };
+}
+
+// wrong-port has no meaning on a connection; those replies are sent normally.
+async function startTcpSimulator(
+  options: SimulatorOptions,
+  state: Map<string, number>,
+  handleRequest: (requestBytes: number[], from: string) => { reply: number[]; plan: FaultPlan | null } | null,
+  deliver: (plan: FaultPlan | null, send: () => void) => void
+): Promise<DeviceSimulator> {
+  const connections = new Set<net.Socket>();
+  const server = net.createServer(connection => {
+    connections.add(connection);
+    const from = `${connection.remoteAddress}:${connection.remotePort}`;
+    let pending: number[] = [];
+    connection.on('data', chunk => {
+      const split = extractStreamFrames([...pending, ...chunk.values()]);
+      pending = split.rest;
+      for (const requestBytes of split.frames) {
+        const handled = handleRequest(requestBytes, from);
+        if (!handled) continue;
+        const payload = Buffer.from(handled.reply);
+        deliver(handled.plan, () => {
+          if (!connection.destroyed) connection.write(payload);
+        });
+      }
+    });
+    connection.on('error', () => undefined);
+    connection.on('close', () => connections.delete(connection));
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = server.address() as net.AddressInfo;
+  return {
+    address: address.address,
+    port: address.port,
+    state,
+    close: async () => {
+      for (const connection of connections) connection.destroy();
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  };
+}
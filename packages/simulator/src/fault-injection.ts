@@ -0,0 +1,140 @@
+import fs from 'node:fs';
+import { decodeFrame, encodeFrame } from '@exview/protocol';
+
+export type FaultType =
+  | 'drop'
+  | 'delay'
+  | 'corrupt-checksum'
+  | 'wrong-reply-code'
+  | 'ack-busy'
+  | 'ack-occupied'
+  | 'duplicate'
+  | 'wrong-port';
+
+export interface FaultRule {
+  code?: string;
+  type: FaultType;
+  probability?: number;
+  delayMs?: number;
+}
+
+export interface FaultScript {
+  seed?: number;
+  faults: FaultRule[];
+}
+
+export interface FaultPlan {
+  drop: boolean;
+  delayMs: number;
+  duplicate: boolean;
+  wrongPort: boolean;
+  applied: FaultType[];
+}
+
+export interface FaultInjector {
+  plan(commandCode: string): FaultPlan;
+  apply(plan: FaultPlan, reply: number[]): number[];
+}
+
+const FAULT_TYPES = new Set<FaultType>([
+  'drop',
+  'delay',
+  'corrupt-checksum',
+  'wrong-reply-code',
+  'ack-busy',
+  'ack-occupied',
+  'duplicate',
+  'wrong-port'
+]);
+
+const DEFAULT_DELAY_MS = 2000;
+
+function normalizeCode(input: string | null | undefined): string | null {
+  if (!input) return null;
+  const normalized = input.replace(/^0x/i, '').replace(/[^0-9A-Fa-f]/g, '').toUpperCase();
+  if (!normalized) return null;
+  return normalized.padStart(4, '0');
+}
+
+// mulberry32: small, fast and stable across Node versions, so a seed always replays the same fault sequence.
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function withAckStatus(reply: number[], status: number): number[] {
+  const decoded = decodeFrame(reply);
+  if (!decoded.ok) return [...reply];
+  return encodeFrame({ ...decoded.frame, payload: [status & 0xff, (status >> 8) & 0xff] });
+}
+
+// Shifts the low byte of the reply code (0xC204 -> 0xC214) so it no longer answers the request.
+function withWrongReplyCode(reply: number[]): number[] {
+  const decoded = decodeFrame(reply);
+  if (!decoded.ok) return [...reply];
+  const code = decoded.frame.commandCode;
+  return encodeFrame({ ...decoded.frame, commandCode: (code & 0xff00) | ((code + 0x10) & 0xff) });
+}
+
+export function loadFaultScript(scriptPath: string): FaultScript {
+  if (!fs.existsSync(scriptPath)) {
+    throw new Error(`Fault script not found: ${scriptPath}`);
+  }
+  const parsed = JSON.parse(fs.readFileSync(scriptPath, 'utf8')) as Partial<FaultScript>;
+  if (!Array.isArray(parsed.faults)) {
+    throw new Error(`Invalid fault script (faults array missing): ${scriptPath}`);
+  }
+  for (const rule of parsed.faults) {
+    if (!FAULT_TYPES.has(rule.type)) {
+      throw new Error(`Unknown fault type "${String(rule.type)}". Available: ${[...FAULT_TYPES].join(',')}`);
+    }
+    if (rule.probability != null && (!Number.isFinite(rule.probability) || rule.probability < 0 || rule.probability > 1)) {
+      throw new Error(`Invalid fault probability for ${rule.type}: ${rule.probability}`);
+    }
+  }
+  return { seed: parsed.seed, faults: parsed.faults };
+}
+
+export function createFaultInjector(script: FaultScript): FaultInjector {
+  const random = createRandom(script.seed ?? 1);
+
+  return {
+    plan(commandCode: string): FaultPlan {
+      const plan: FaultPlan = { drop: false, delayMs: 0, duplicate: false, wrongPort: false, applied: [] };
+      for (const rule of script.faults) {
+        const ruleCode = rule.code === '*' ? null : normalizeCode(rule.code);
+        if (ruleCode && ruleCode !== commandCode) continue;
+        // Always draw, even for probability 1, so adding a rule never shifts the sequence of the rules after it.
+        const roll = random();
+        if (roll >= (rule.probability ?? 1)) continue;
+
+        plan.applied.push(rule.type);
+        if (rule.type === 'drop') plan.drop = true;
+        if (rule.type === 'delay') plan.delayMs = Math.max(plan.delayMs, rule.delayMs ?? DEFAULT_DELAY_MS);
+        if (rule.type === 'duplicate') plan.duplicate = true;
+        if (rule.type === 'wrong-port') plan.wrongPort = true;
+      }
+      return plan;
+    },
+
+    apply(plan: FaultPlan, reply: number[]): number[] {
+      let bytes = [...reply];
+      for (const type of plan.applied) {
+        if (type === 'ack-busy') bytes = withAckStatus(bytes, 0x8001);
+        if (type === 'ack-occupied') bytes = withAckStatus(bytes, 0x8002);
+        if (type === 'wrong-reply-code') bytes = withWrongReplyCode(bytes);
+      }
+      // Corrupt last so the damaged checksum is not recomputed by the rewrites above.
+      if (plan.applied.includes('corrupt-checksum') && bytes.length > 0) {
+        bytes[bytes.length - 1] = (bytes[bytes.length - 1] ^ 0xff) & 0xff;
+      }
+      return bytes;
+    }
+  };
+}
@@ -0,0 +1,108 @@
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { startDeviceSimulator, type SimulatorOptions } from './device-simulator.ts';
+import { loadFaultScript, type FaultScript } from './fault-injection.ts';
+
+function printHelp(): void {
+  console.log('Usage: npm run simulator -- [options]');
+  console.log('');
+  console.log('Options:');
+  console.log('  --port <port>                Port to listen on. Default: 8601');
+  console.log('  --tcp                        Serve over TCP instead of UDP (terminal-server tunnel)');
+  console.log('  --host <address>             Address to bind. Default: 127.0.0.1');
+  console.log('  --truth <path>               Default: packages/data/commands.truth.json');
+  console.log('  --faults <path>              Fault script JSON (drop, delay, corrupt-checksum, wrong-reply-code,');
+  console.log('                               ack-busy, ack-occupied, duplicate, wrong-port)');
+  console.log('  --verbose                    Log every request and reply');
+  console.log('  --help                       Show this help');
+}
+
+function parseOptions(argv: string[], defaultTruthPath: string): SimulatorOptions {
+  let host = '127.0.0.1';
+  let port = 8601;
+  let truthPath = defaultTruthPath;
+  let verbose = false;
+  let transport: 'udp' | 'tcp' = 'udp';
+  let faultScript: FaultScript | undefined;
+
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index];
+
+    if (arg === '--help') {
+      printHelp();
+      process.exit(0);
+    }
+
+    if (arg === '--port') {
+      const next = argv[index + 1];
+      if (!next) throw new Error('--port requires a port');
+      index += 1;
+      const numeric = Number(next);
+      if (!Number.isFinite(numeric) || numeric < 1 || numeric > 65535) {
+        throw new Error(`Invalid --port: ${next}`);
+      }
+      port = numeric;
+      continue;
+    }
+
+    if (arg === '--host') {
+      const next = argv[index + 1];
+      if (!next) throw new Error('--host requires an address');
+      index += 1;
+      host = next;
+      continue;
+    }
+
+    if (arg === '--truth') {
+      const next = argv[index + 1];
+      if (!next) throw new Error('--truth requires a file path');
+      index += 1;
+      truthPath = path.resolve(next);
+      continue;
+    }
+
+    if (arg === '--faults') {
+      const next = argv[index + 1];
+      if (!next) throw new Error('--faults requires a file path');
+      index += 1;
+      faultScript = loadFaultScript(path.resolve(next));
+      continue;
+    }
+
+    if (arg === '--tcp') {
+      transport = 'tcp';
+      continue;
+    }
+
+    if (arg === '--verbose') {
+      verbose = true;
+      continue;
+    }
+
+    throw new Error(`Unknown argument: ${arg}`);
+  }
+
+  return { host, port, transport, truthPath, verbose, faultScript };
+}
+
+async function run(): Promise<void> {
+  const scriptDir = path.dirname(fileURLToPath(import.meta.url));
+  const options = parseOptions(process.argv.slice(2), path.resolve(scriptDir, '..', '..', 'data', 'commands.truth.json'));
+  const simulator = await startDeviceSimulator(options);
+  console.log(`Device simulator listening on ${options.transport === 'tcp' ? 'TCP' : 'UDP'} ${simulator.address}:${simulator.port}`);
+  console.log(`Truth: ${options.truthPath}`);
+  if (options.faultScript) {
+    console.log(`Fault injection: ${options.faultScript.faults.length} rule(s), seed=${options.faultScript.seed ?? 1}`);
+  }
+  const transportArg = options.transport === 'tcp' ? ' --transport tcp' : '';
+  console.log(`Run the suite with: npm run suite -- --target ${simulator.address}:${simulator.port}${transportArg}`);
+
+  process.once('SIGINT', () => {
+    void simulator.close().then(() => process.exit(0));
+  });
+}
+
+run().catch(error => {
+  console.error(error instanceof Error ? error.stack ?? error.message : String(error));
+  process.exitCode = 1;
+});